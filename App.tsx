@@ -1,53 +1,136 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import * as THREE from 'three';
-import { HandTracker } from './components/HandTracker';
+import { InputManager } from './components/InputManager';
 import { Scene } from './components/Scene';
-import { HandData, PhotoData } from './types';
-import { v4 as uuidv4 } from 'uuid'; // Need a simple ID generator, using math random fallback if uuid fails or using custom function
+import { GestureEvent, HandData, MultiHandData } from './types';
+import { PhotoManager } from './components/PhotoManager';
+import { FormationPicker } from './components/FormationPicker';
+import { MessageComposer } from './components/MessageComposer';
+import { SettingsPanel } from './components/SettingsPanel';
+import { MusicPlayer } from './components/MusicPlayer';
+import { PostEffects } from './components/PostEffects';
+import { CaptureControls } from './components/CaptureControls';
+import { PerformanceStats } from './components/PerformanceStats';
+import { HandProfilePicker } from './components/HandProfilePicker';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { GestureLegend } from './components/GestureLegend';
+import { GestureBindingsPanel } from './components/GestureBindingsPanel';
+import { SnowControls } from './components/SnowControls';
+import { nextFormationId } from './services/formations';
+import { tieredParticleCount, tieredSnowflakeCount } from './services/quality';
+import { usePhotoLibrary } from './hooks/usePhotoLibrary';
+import { useSceneConfig } from './hooks/useSceneConfig';
+import { useMusicPlayer } from './hooks/useMusicPlayer';
+import { useSceneCapture } from './hooks/useSceneCapture';
+import { useSceneBundle } from './hooks/useSceneBundle';
+import { useQuality } from './hooks/useQuality';
+import { useCalibration } from './hooks/useCalibration';
+import { useGestureBindings } from './hooks/useGestureBindings';
+import { useSnowfall } from './hooks/useSnowfall';
+import { DEFAULT_PROFILE } from './services/calibration';
+import { GestureActionDispatcher, GestureActionId } from './services/gestureBindings';
 
-// Helper for ID since we can't easily import uuid in all envs without install
-const generateId = () => Math.random().toString(36).substr(2, 9);
+// Max time between two fist starts to count as a double clench
+const DOUBLE_CLENCH_MS = 800;
 
 const App: React.FC = () => {
   const handDataRef = useRef<HandData | null>(null);
+  const handsDataRef = useRef<MultiHandData | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
-  const [photos, setPhotos] = useState<PhotoData[]>([]);
+  const { photos, error: photoError, dismissError, addFiles, removePhoto, updatePhoto, movePhoto, replaceAll: replacePhotos } = usePhotoLibrary();
+  const [showPhotoManager, setShowPhotoManager] = useState(false);
+  const { config: sceneConfig, setConfig: setSceneConfig, error: configError, dismissError: dismissConfigError, importFile: importSceneConfig, exportConfig: exportSceneConfig } = useSceneConfig();
+  // Settings and music share the spot next to the buttons, so only one is open at a time
+  const bundle = useSceneBundle({ config: sceneConfig, photos, setConfig: setSceneConfig, replacePhotos });
+  const [sidePanel, setSidePanel] = useState<'settings' | 'music' | 'gestures' | null>(null);
+  const toggleSidePanel = (panel: 'settings' | 'music' | 'gestures') => setSidePanel(prev => (prev === panel ? null : panel));
+  // The shape a closed hand settles into, and whether an open hand has blown it apart
+  const [restFormation, setRestFormation] = useState('tree');
+  const [isExploded, setIsExploded] = useState(false);
+  // Opened photos stay up after the pinch, for browsing with swipes
+  const [stickyPhotos, setStickyPhotos] = useState(false);
+  // Next-memory requests for the Scene's frame loop
+  const photoStepRef = useRef(0);
+  // Whether the Scene currently has a photo open
+  const photoOpenRef = useRef(false);
+  const lastFistStartRef = useRef(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [isMusicPlaying, setIsMusicPlaying] = useState(false);
+  const music = useMusicPlayer(audioRef);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const webcamRef = useRef<HTMLVideoElement | null>(null);
+  const [hasWebcam, setHasWebcam] = useState(false);
+  const capture = useSceneCapture(canvasRef, webcamRef);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const quality = useQuality();
+  const snow = useSnowfall();
+  const calibration = useCalibration();
+  const [showCalibration, setShowCalibration] = useState(false);
+  const gestureBindings = useGestureBindings();
+  const gestureDispatcher = useMemo(() => new GestureActionDispatcher(), []);
 
-  // Callback from HandTracker (runs every frame ideally, avoid state updates here for perf)
+  useEffect(() => {
+    gestureDispatcher.setBindings(gestureBindings.bindings);
+  }, [gestureDispatcher, gestureBindings.bindings]);
+
+  // Callback from the active input source (runs every frame ideally, avoid state updates here for perf)
   const handleHandUpdate = useCallback((data: HandData | null) => {
     handDataRef.current = data;
   }, []);
 
+  const handleHandsUpdate = useCallback((data: MultiHandData) => {
+    handsDataRef.current = data;
+  }, []);
+
+  const handleVideoChange = useCallback((video: HTMLVideoElement | null) => {
+    webcamRef.current = video;
+    setHasWebcam(!!video);
+  }, []);
+
+  const stepFormation = useCallback((step: number) => {
+    setRestFormation(current => nextFormationId(current, step));
+  }, []);
+
+  // Gesture transitions only fire on start/end, so the formation changes once per gesture
+  const handleGestureEvent = useCallback((event: GestureEvent) => {
+    if (event.gesture === 'open') {
+      if (event.phase === 'start') setIsExploded(true);
+      if (event.phase === 'end') setIsExploded(false);
+    }
+
+    // Two fists in quick succession ("double clench") morph into the next shape
+    if (event.gesture === 'fist' && event.phase === 'start') {
+      if (event.timestamp - lastFistStartRef.current < DOUBLE_CLENCH_MS) {
+        stepFormation(1);
+        lastFistStartRef.current = 0;
+      } else {
+        lastFistStartRef.current = event.timestamp;
+      }
+    }
+
+    // Swiping through open photos swings the hand like a wave, so waves don't count then
+    if (event.gesture === 'wave' && photoOpenRef.current) return;
+
+    // The other poses do whatever they are bound to
+    const action = gestureDispatcher.handle(event);
+    if (action) actionsRef.current[action]();
+  }, [stepFormation, gestureDispatcher]);
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files && files.length > 0) {
-      const newPhotos: PhotoData[] = [];
-      const transitions: ('spin' | 'slide' | 'pop' | 'fade')[] = ['spin', 'slide', 'pop', 'fade'];
-
-      Array.from(files).forEach((file, index) => {
-        const url = URL.createObjectURL(file as Blob);
-        const texture = new THREE.TextureLoader().load(url);
-        newPhotos.push({
-          id: generateId(),
-          url,
-          texture,
-          transitionType: transitions[index % transitions.length], // Cycle through types
-        });
-      });
-
-      setPhotos(prev => [...prev, ...newPhotos]);
+      addFiles(Array.from(files));
     }
+    event.target.value = '';
   };
 
+  // Browsers may refuse fullscreen when it wasn't asked for by a click, e.g. from a gesture
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
-      document.documentElement.requestFullscreen();
-      setIsFullscreen(true);
+      document.documentElement.requestFullscreen().then(
+        () => setIsFullscreen(true),
+        err => console.warn("Could not enter fullscreen:", err)
+      );
     } else {
       if (document.exitFullscreen) {
         document.exitFullscreen();
@@ -56,63 +139,68 @@ const App: React.FC = () => {
     }
   };
 
-  const toggleMusic = () => {
-    if (!audioRef.current) return;
-
-    if (isMusicPlaying) {
-      audioRef.current.pause();
-      setIsMusicPlaying(false);
-    } else {
-      const playPromise = audioRef.current.play();
-      // Optimistically set to playing
-      setIsMusicPlaying(true);
-      
-      if (playPromise !== undefined) {
-        playPromise.catch(error => {
-          // If the user pauses immediately after playing, an AbortError is thrown.
-          // This is expected behavior during rapid toggling.
-          if (error.name === 'AbortError') {
-            console.log("Audio play interrupted by pause");
-            // We don't necessarily need to set false here because the pause action 
-            // likely triggered this and handled the state.
-          } else {
-            console.error("Audio playback failed:", error);
-            // Revert state if it was a genuine error (like permission denied)
-            setIsMusicPlaying(false);
-          }
-        });
-      }
-    }
+  // What bound gestures do. The gesture handler reads them through a ref, so it always runs the latest versions.
+  const gestureActions: Record<GestureActionId, () => void> = {
+    nextFormation: () => stepFormation(1),
+    nextPhoto: () => { photoStepRef.current += 1; },
+    toggleMusic: music.toggle,
+    toggleFullscreen,
+    snapshot: capture.snapshot,
+    toggleSnowfall: snow.toggle,
   };
+  const actionsRef = useRef(gestureActions);
+  actionsRef.current = gestureActions;
 
   return (
     <div className="relative w-full h-full bg-neutral-900 overflow-hidden select-none">
       {/* 3D Canvas */}
       <Canvas
+        ref={canvasRef}
         shadows
-        // Adjusted camera Z to 24 to fit the whole tree completely (Tree height ~12-15 units)
-        camera={{ position: [0, 0, 24], fov: 45 }}
-        dpr={[1, 2]} // Quality scaling
-        gl={{ antialias: false, toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: 1.5 }}
+        camera={{ position: sceneConfig.camera.position, fov: sceneConfig.camera.fov }}
+        dpr={quality.tier.dpr} // Quality scaling
+        // preserveDrawingBuffer lets snapshots read the last rendered frame
+        gl={{ antialias: false, toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: 1.5, preserveDrawingBuffer: true }}
       >
-        <Scene handData={handDataRef} photos={photos} />
+        <Scene
+          handData={handDataRef}
+          hands={handsDataRef}
+          photos={photos}
+          formation={isExploded ? 'explosion' : restFormation}
+          config={sceneConfig}
+          stickyPhotos={stickyPhotos}
+          quality={quality.tier}
+          snow={snow.enabled ? snow.preset : null}
+          photoStep={photoStepRef}
+          photoOpen={photoOpenRef}
+        />
         
-        {/* Post Processing for the Glow/Bloom effect */}
-        <EffectComposer disableNormalPass>
-          <Bloom luminanceThreshold={1} mipmapBlur intensity={1.5} radius={0.4} />
-          <Vignette eskil={false} offset={0.1} darkness={1.1} />
-        </EffectComposer>
+        <PostEffects config={sceneConfig} allowBloom={quality.tier.bloom} />
       </Canvas>
 
-      {/* Hand Tracker Overlay */}
-      <HandTracker onHandUpdate={handleHandUpdate} />
+      {/* Hand Tracker Overlay (webcam, or mouse/keyboard emulation) */}
+      <InputManager
+        onHandUpdate={handleHandUpdate}
+        onHandsUpdate={handleHandsUpdate}
+        onGestureEvent={handleGestureEvent}
+        onVideoChange={handleVideoChange}
+        detectionFps={quality.tier.detectionFps}
+        thresholds={calibration.active.thresholds}
+      />
 
-      {/* Audio Element with Fallbacks */}
-      <audio ref={audioRef} loop crossOrigin="anonymous">
-        {/* Primary Source: Reliable MP3 */}
-        <source src="https://files.freemusicarchive.org/storage-freemusicarchive-org/music/no_curator/United_States_Marine_Band/We_Wish_You_a_Merry_Christmas/United_States_Marine_Band_-_We_Wish_You_a_Merry_Christmas.mp3" type="audio/mpeg" />
-        {/* Fallback Source: OGG */}
-        <source src="https://upload.wikimedia.org/wikipedia/commons/e/e9/We_Wish_You_a_Merry_Christmas.ogg" type="audio/ogg" />
+      <PerformanceStats
+        tier={quality.tier}
+        mode={quality.mode}
+        onModeChange={quality.setMode}
+        particleCount={tieredParticleCount(sceneConfig.particles.count, quality.tier)}
+        snowflakeCount={snow.enabled ? tieredSnowflakeCount(snow.preset.density, quality.tier) : 0}
+      />
+
+      {/* Music playlist output; sources come from the current track */}
+      <audio ref={audioRef} crossOrigin="anonymous">
+        {music.current?.sources.map(source => (
+          <source key={source.src} src={source.src} type={source.type} />
+        ))}
         Your browser does not support the audio element.
       </audio>
 
@@ -122,11 +210,23 @@ const App: React.FC = () => {
           <h1 className="text-3xl font-light text-white tracking-wider mb-2 drop-shadow-lg">
             Winter<span className="font-bold text-red-500">Magic</span>
           </h1>
-          <p className="text-white/60 text-sm max-w-md">
-            • ✊ Fist: Form Tree<br/>
-            • 🖐 Open: Explode & Rotate<br/>
-            • 👌 Pinch: Grab Memories
-          </p>
+          <GestureLegend bindings={gestureBindings.bindings} />
+          <div className="mt-3 flex flex-col gap-2">
+            <FormationPicker value={restFormation} onChange={setRestFormation} onStep={stepFormation} />
+            <MessageComposer onCreated={setRestFormation} />
+            <label className="flex items-center gap-2 text-xs text-white/70" data-ui title="Photos stay open after the pinch until you swipe down">
+              <input type="checkbox" checked={stickyPhotos} onChange={(e) => setStickyPhotos(e.target.checked)} className="accent-red-500" />
+              📌 Keep photos open
+            </label>
+            <SnowControls enabled={snow.enabled} preset={snow.preset} onToggle={snow.toggle} onPresetChange={snow.setPreset} />
+            <HandProfilePicker
+              profiles={calibration.profiles}
+              activeId={calibration.active.id}
+              onSelect={calibration.selectProfile}
+              onRemove={calibration.removeProfile}
+              onCalibrate={() => setShowCalibration(true)}
+            />
+          </div>
         </div>
 
         <div className="flex flex-col gap-4 pointer-events-auto">
@@ -141,11 +241,11 @@ const App: React.FC = () => {
           </button>
 
           <button 
-            onClick={toggleMusic}
-            className={`p-3 rounded-full transition-all border border-white/10 ${isMusicPlaying ? 'bg-green-600/80 text-white shadow-[0_0_15px_rgba(34,197,94,0.5)]' : 'bg-white/10 hover:bg-white/20 text-white/70'}`}
+            onClick={music.toggle}
+            className={`p-3 rounded-full transition-all border border-white/10 ${music.isPlaying ? 'bg-green-600/80 text-white shadow-[0_0_15px_rgba(34,197,94,0.5)]' : 'bg-white/10 hover:bg-white/20 text-white/70'}`}
             title="Toggle Music"
           >
-            {isMusicPlaying ? (
+            {music.isPlaying ? (
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6 animate-pulse">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z" />
               </svg>
@@ -155,6 +255,46 @@ const App: React.FC = () => {
               </svg>
             )}
           </button>
+
+          <button
+            onClick={() => toggleSidePanel('music')}
+            className={`p-3 rounded-full transition-all border border-white/10 ${sidePanel === 'music' ? 'bg-white/30 text-white' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+            title="Playlist"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9 9l10.5-3m0 6.553v3.75a2.25 2.25 0 01-1.632 2.163l-1.32.377a1.803 1.803 0 11-.99-3.467l2.31-.66a2.25 2.25 0 001.632-2.163zm0 0V2.25L9 5.25v10.303m0 0v3.75a2.25 2.25 0 01-1.632 2.163l-1.32.377a1.803 1.803 0 01-.99-3.467l2.31-.66A2.25 2.25 0 009 15.553z" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => toggleSidePanel('gestures')}
+            className={`p-3 rounded-full transition-all border border-white/10 ${sidePanel === 'gestures' ? 'bg-white/30 text-white' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+            title="Gestures"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M10.05 4.575a1.575 1.575 0 10-3.15 0v3m3.15-3v-1.5a1.575 1.575 0 013.15 0v1.5m-3.15 0l.075 5.925m3.075.75V4.575m0 0a1.575 1.575 0 013.15 0V15M6.9 7.575a1.575 1.575 0 10-3.15 0v8.175a6.75 6.75 0 006.75 6.75h2.018a5.25 5.25 0 003.712-1.538l1.732-1.732a5.25 5.25 0 001.538-3.712l.003-2.024a.668.668 0 01.198-.471 1.575 1.575 0 10-2.228-2.228 3.818 3.818 0 00-1.12 2.687M6.9 7.575V12m6.27 4.318A4.49 4.49 0 0116.35 15m.002 0h-.002" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => toggleSidePanel('settings')}
+            className={`p-3 rounded-full transition-all border border-white/10 ${sidePanel === 'settings' ? 'bg-white/30 text-white' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+            title="Scene Settings"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => setShowPhotoManager(prev => !prev)}
+            className={`p-3 rounded-full transition-all border border-white/10 ${showPhotoManager ? 'bg-white/30 text-white' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+            title="Manage Photos"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+            </svg>
+          </button>
           
           <button 
             onClick={() => fileInputRef.current?.click()}
@@ -176,6 +316,113 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {showPhotoManager && (
+        <PhotoManager
+          photos={photos}
+          onRemove={removePhoto}
+          onUpdate={updatePhoto}
+          onMove={movePhoto}
+          onClose={() => setShowPhotoManager(false)}
+        />
+      )}
+
+      {showCalibration && (
+        <CalibrationWizard
+          handData={handDataRef}
+          initialName={calibration.active.id === DEFAULT_PROFILE.id ? `Profile ${calibration.profiles.length}` : calibration.active.name}
+          onSave={(name, thresholds) => {
+            calibration.saveProfile(name, thresholds);
+            setShowCalibration(false);
+          }}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+
+      {sidePanel === 'settings' && (
+        <SettingsPanel
+          config={sceneConfig}
+          onChange={setSceneConfig}
+          onImport={importSceneConfig}
+          onExport={exportSceneConfig}
+          onExportBundle={bundle.exportBundle}
+          onImportBundle={bundle.importBundle}
+          bundleBusy={bundle.busy}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {sidePanel === 'gestures' && (
+        <GestureBindingsPanel
+          bindings={gestureBindings.bindings}
+          onChange={gestureBindings.setBinding}
+          onReset={gestureBindings.resetBindings}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {sidePanel === 'music' && (
+        <MusicPlayer
+          tracks={music.tracks}
+          index={music.index}
+          isPlaying={music.isPlaying}
+          volume={music.volume}
+          reactive={music.reactive}
+          error={music.error}
+          onToggle={music.toggle}
+          onNext={music.next}
+          onPrevious={music.previous}
+          onSelect={music.selectTrack}
+          onAddFiles={music.addFiles}
+          onRemove={music.removeTrack}
+          onVolumeChange={music.setVolume}
+          onReactiveChange={music.setReactive}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {/* Photo storage problems (quota, unavailable IndexedDB) */}
+      {photoError && (
+        <div className="absolute top-6 left-1/2 transform -translate-x-1/2 max-w-md bg-red-900/80 backdrop-blur text-white text-sm px-4 py-3 rounded-lg border border-red-400/30 flex items-start gap-3">
+          <span>{photoError}</span>
+          <button onClick={dismissError} className="text-white/60 hover:text-white" title="Dismiss">✕</button>
+        </div>
+      )}
+
+      <CaptureControls
+        options={capture.options}
+        onOptionsChange={capture.setOptions}
+        isRecording={capture.isRecording}
+        recordingStartedAt={capture.recordingStartedAt}
+        hasWebcam={hasWebcam}
+        onSnapshot={capture.snapshot}
+        onToggleRecording={capture.toggleRecording}
+      />
+
+      {/* Camera-shutter flash when a snapshot is saved */}
+      {capture.flash && <div className="absolute inset-0 bg-white/40 pointer-events-none" />}
+
+      {capture.error && (
+        <div className="absolute top-6 left-1/2 transform -translate-x-1/2 max-w-md bg-red-900/80 backdrop-blur text-white text-sm px-4 py-3 rounded-lg border border-red-400/30 flex items-start gap-3">
+          <span>{capture.error}</span>
+          <button onClick={capture.dismissError} className="text-white/60 hover:text-white" title="Dismiss">✕</button>
+        </div>
+      )}
+
+      {bundle.error && (
+        <div className="absolute top-6 left-1/2 transform -translate-x-1/2 max-w-md bg-red-900/80 backdrop-blur text-white text-sm px-4 py-3 rounded-lg border border-red-400/30 flex items-start gap-3">
+          <span className="whitespace-pre-line">{bundle.error}</span>
+          <button onClick={bundle.dismissError} className="text-white/60 hover:text-white" title="Dismiss">✕</button>
+        </div>
+      )}
+
+      {/* Rejected theme imports, listing what failed validation */}
+      {configError && (
+        <div className="absolute top-24 left-1/2 transform -translate-x-1/2 max-w-md bg-red-900/80 backdrop-blur text-white text-sm px-4 py-3 rounded-lg border border-red-400/30 flex items-start gap-3">
+          <span className="whitespace-pre-line">{configError}</span>
+          <button onClick={dismissConfigError} className="text-white/60 hover:text-white" title="Dismiss">✕</button>
+        </div>
+      )}
+
       {/* Guide for empty state */}
       {photos.length === 0 && (
         <div className="absolute bottom-10 left-1/2 transform -translate-x-1/2 text-white/40 text-sm pointer-events-none animate-pulse">
@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandData } from '../types';
+import { CALIBRATION_STEPS, CalibrationError, DEFAULT_PROFILE, CalibrationSample, CalibrationSamples, thresholdsFromSamples } from '../services/calibration';
+import { GestureThresholds } from '../services/gestureRecognizer';
+
+interface CalibrationWizardProps {
+  handData: React.MutableRefObject<HandData | null>;
+  initialName: string;
+  onSave: (name: string, thresholds: GestureThresholds) => void;
+  onClose: () => void;
+}
+
+// Each pose must be held this long before sampling starts, then sampled for this long
+const SETTLE_MS = 600;
+const COLLECT_MS = 2000;
+
+type Status = 'waiting' | 'settling' | 'collecting';
+
+// Guides through an open hand, a fist and a pinch, then derives thresholds from what it saw
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ handData, initialName, onSave, onClose }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [status, setStatus] = useState<Status>('waiting');
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<GestureThresholds | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState(initialName);
+  const samplesRef = useRef<CalibrationSamples>({ open: [], fist: [], pinch: [] });
+
+  const done = stepIndex >= CALIBRATION_STEPS.length;
+
+  // Samples the current pose from the live hand. Losing the hand restarts the step.
+  useEffect(() => {
+    if (done) return;
+    const { step } = CALIBRATION_STEPS[stepIndex];
+    let samples: CalibrationSample[] = [];
+    let holdStart: number | null = null;
+    let lastTimestamp = -1;
+    let frame: number;
+
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      const hand = handData.current;
+      if (!hand || hand.handSize <= 0) {
+        holdStart = null;
+        samples = [];
+        setStatus('waiting');
+        setProgress(0);
+        return;
+      }
+      if (hand.timestamp === lastTimestamp) return;
+      lastTimestamp = hand.timestamp;
+
+      holdStart ??= hand.timestamp;
+      const held = hand.timestamp - holdStart;
+      if (held < SETTLE_MS) {
+        setStatus('settling');
+        return;
+      }
+
+      samples.push({ openness: hand.openness, pinch: hand.pinchDistance / hand.handSize });
+      setStatus('collecting');
+      setProgress(Math.min(1, (held - SETTLE_MS) / COLLECT_MS));
+      if (held - SETTLE_MS >= COLLECT_MS) {
+        cancelAnimationFrame(frame);
+        samplesRef.current = { ...samplesRef.current, [step]: samples };
+        setStepIndex(i => i + 1);
+      }
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [stepIndex, done, handData]);
+
+  useEffect(() => {
+    if (!done) return;
+    try {
+      setResult(thresholdsFromSamples(samplesRef.current));
+    } catch (err) {
+      if (!(err instanceof CalibrationError)) throw err;
+      setError(err.message);
+    }
+  }, [done]);
+
+  const restart = () => {
+    samplesRef.current = { open: [], fist: [], pinch: [] };
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    setStatus('waiting');
+    setStepIndex(0);
+  };
+
+  const current = CALIBRATION_STEPS[stepIndex];
+  const trimmedName = name.trim();
+  // The built-in profile can't be overwritten
+  const canSave = !!trimmedName && trimmedName !== DEFAULT_PROFILE.name;
+
+  return (
+    <div
+      className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-80 flex flex-col bg-black/60 backdrop-blur-md rounded-lg border border-white/10 text-white shadow-xl"
+      data-ui
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <span className="text-sm font-semibold tracking-wide">Calibrate your hand</span>
+        <button onClick={onClose} className="text-white/60 hover:text-white" title="Close">✕</button>
+      </div>
+
+      <div className="p-4 flex flex-col gap-3 text-sm">
+        <ol className="flex gap-2 text-[11px]">
+          {CALIBRATION_STEPS.map(({ step, label }, i) => (
+            <li
+              key={step}
+              className={`flex-1 text-center rounded px-1 py-0.5 border border-white/10 ${i === stepIndex ? 'bg-white/30' : i < stepIndex ? 'bg-green-600/40' : 'bg-white/5 text-white/50'}`}
+            >
+              {label}
+            </li>
+          ))}
+        </ol>
+
+        {current && (
+          <>
+            <p>{current.instruction}.</p>
+            <p className="text-xs text-white/60">
+              {status === 'waiting' && 'Waiting for your hand…'}
+              {status === 'settling' && 'Hold it there…'}
+              {status === 'collecting' && 'Keep holding…'}
+            </p>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full bg-red-500 transition-[width] duration-100" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <>
+            <p className="text-red-300">{error}</p>
+            <button onClick={restart} className="self-start px-3 py-1 rounded bg-white/10 hover:bg-white/20 border border-white/10 text-xs">
+              Try again
+            </button>
+          </>
+        )}
+
+        {result && (
+          <>
+            <p className="text-xs text-white/60">
+              Open above {result.openEnter.toFixed(2)} · fist below {result.openExit.toFixed(2)} · pinch under {result.pinchEnter.toFixed(2)} palm lengths
+            </p>
+            <input
+              type="text"
+              value={name}
+              placeholder="Profile name"
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-white/10 rounded px-2 py-1 text-xs placeholder-white/30 outline-none focus:bg-white/20"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => onSave(trimmedName, result)}
+                disabled={!canSave}
+                className="px-3 py-1 rounded bg-red-500/80 hover:bg-red-600/90 disabled:opacity-40 text-xs"
+              >
+                Save profile
+              </button>
+              <button onClick={restart} className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 border border-white/10 text-xs">
+                Start over
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
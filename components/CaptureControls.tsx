@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { CaptureOptions } from '../services/sceneCapture';
+
+interface CaptureControlsProps {
+  options: CaptureOptions;
+  onOptionsChange: (options: CaptureOptions) => void;
+  isRecording: boolean;
+  recordingStartedAt: number | null;
+  hasWebcam: boolean;
+  onSnapshot: () => void;
+  onToggleRecording: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const CaptureControls: React.FC<CaptureControlsProps> = ({
+  options, onOptionsChange, isRecording, recordingStartedAt, hasWebcam, onSnapshot, onToggleRecording,
+}) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the recording timer
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const buttonClass = 'px-3 py-1.5 rounded-full text-xs border border-white/10 backdrop-blur transition-all';
+
+  return (
+    <div className="absolute bottom-6 left-6 flex flex-col items-start gap-2 text-white" data-ui>
+      {showOptions && (
+        <div className="w-64 flex flex-col gap-2 p-3 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 shadow-xl text-xs">
+          <input
+            type="text"
+            value={options.caption}
+            placeholder="Caption (optional)"
+            onChange={(e) => onOptionsChange({ ...options, caption: e.target.value })}
+            className="bg-white/10 rounded px-2 py-1 placeholder-white/30 outline-none focus:bg-white/20"
+          />
+          <label className={`flex items-center gap-2 ${hasWebcam ? 'text-white/70' : 'text-white/30'}`}>
+            <input
+              type="checkbox"
+              checked={options.burnInWebcam}
+              disabled={!hasWebcam}
+              onChange={(e) => onOptionsChange({ ...options, burnInWebcam: e.target.checked })}
+              className="accent-red-500"
+            />
+            Show webcam in the corner
+          </label>
+          <label className="flex items-center gap-2 text-white/70">
+            <input
+              type="checkbox"
+              checked={options.includeAudio}
+              onChange={(e) => onOptionsChange({ ...options, includeAudio: e.target.checked })}
+              className="accent-red-500"
+            />
+            Record the music
+          </label>
+          <span className="text-white/40">Hold a 👍 for a second to take a snapshot.</span>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={onSnapshot} className={`${buttonClass} bg-white/10 hover:bg-white/20`} title="Save a PNG snapshot">
+          📷 Snapshot
+        </button>
+        <button
+          onClick={onToggleRecording}
+          className={`${buttonClass} ${isRecording ? 'bg-red-600/80 animate-pulse' : 'bg-white/10 hover:bg-white/20'}`}
+          title={isRecording ? 'Stop and save the video' : 'Record a WebM video'}
+        >
+          {isRecording && recordingStartedAt !== null ? `■ ${formatElapsed(Math.max(0, now - recordingStartedAt))}` : '● Record'}
+        </button>
+        <button
+          onClick={() => setShowOptions(prev => !prev)}
+          className={`${buttonClass} ${showOptions ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+          title="Capture options"
+        >
+          ⚙
+        </button>
+      </div>
+    </div>
+  );
+};
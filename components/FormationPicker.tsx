@@ -0,0 +1,43 @@
+import React, { useSyncExternalStore } from 'react';
+import { listFormations, subscribeFormations } from '../services/formations';
+
+interface FormationPickerProps {
+  value: string;
+  onChange: (id: string) => void;
+  onStep: (step: number) => void;
+}
+
+export const FormationPicker: React.FC<FormationPickerProps> = ({ value, onChange, onStep }) => {
+  // Re-renders when third-party formations are registered
+  const formations = useSyncExternalStore(subscribeFormations, listFormations);
+  const cyclable = formations.filter(f => f.cyclable !== false);
+
+  return (
+    <div className="flex items-center gap-1 text-white text-sm" data-ui>
+      <button
+        onClick={() => onStep(-1)}
+        className="bg-white/10 hover:bg-white/20 rounded-full w-7 h-7 border border-white/10 transition-all"
+        title="Previous shape"
+      >
+        ‹
+      </button>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-white/10 hover:bg-white/20 rounded-full px-3 h-7 border border-white/10 outline-none"
+        title="Shape"
+      >
+        {cyclable.map(f => (
+          <option key={f.id} value={f.id} className="bg-neutral-900">{f.label}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onStep(1)}
+        className="bg-white/10 hover:bg-white/20 rounded-full w-7 h-7 border border-white/10 transition-all"
+        title="Next shape"
+      >
+        ›
+      </button>
+    </div>
+  );
+};
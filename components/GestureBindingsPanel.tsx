@@ -0,0 +1,62 @@
+import React from 'react';
+import { BINDABLE_GESTURES, BindableGesture, GESTURE_ACTIONS, GESTURES, GestureBinding, GestureBindings, HOLD_OPTIONS_MS } from '../services/gestureBindings';
+
+interface GestureBindingsPanelProps {
+  bindings: GestureBindings;
+  onChange: (gesture: BindableGesture, binding: GestureBinding) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// Picks what each hand pose does, and how long it has to be held first
+export const GestureBindingsPanel: React.FC<GestureBindingsPanelProps> = ({ bindings, onChange, onReset, onClose }) => (
+  <div
+    className="absolute top-6 right-24 w-80 max-h-[65vh] flex flex-col bg-black/60 backdrop-blur-md rounded-lg border border-white/10 text-white shadow-xl"
+    data-ui
+  >
+    <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+      <span className="text-sm font-semibold tracking-wide">Gestures</span>
+      <button onClick={onClose} className="text-white/60 hover:text-white" title="Close">✕</button>
+    </div>
+
+    <ul className="overflow-y-auto p-2 flex flex-col gap-1">
+      {BINDABLE_GESTURES.map(gesture => {
+        const binding = bindings[gesture];
+        return (
+          <li key={gesture} className="flex items-center gap-2 p-2 rounded-md bg-white/5 text-xs">
+            <span className="w-24 shrink-0">{GESTURES[gesture].emoji} {GESTURES[gesture].label}</span>
+            <select
+              value={binding.action ?? ''}
+              onChange={(e) => onChange(gesture, { ...binding, action: (e.target.value || null) as GestureBinding['action'] })}
+              className="flex-1 min-w-0 bg-white/10 rounded px-1 py-0.5 outline-none focus:bg-white/20"
+              title="Action"
+            >
+              <option value="" className="bg-neutral-900">Nothing</option>
+              {GESTURE_ACTIONS.map(action => (
+                <option key={action.id} value={action.id} className="bg-neutral-900">{action.label}</option>
+              ))}
+            </select>
+            <select
+              value={binding.holdMs}
+              onChange={(e) => onChange(gesture, { ...binding, holdMs: Number(e.target.value) })}
+              disabled={!binding.action}
+              className="bg-white/10 rounded px-1 py-0.5 outline-none focus:bg-white/20 disabled:opacity-40"
+              title="Hold for"
+            >
+              {(HOLD_OPTIONS_MS.includes(binding.holdMs) ? HOLD_OPTIONS_MS : [...HOLD_OPTIONS_MS, binding.holdMs]).map(ms => (
+                <option key={ms} value={ms} className="bg-neutral-900">{ms === 0 ? 'At once' : `${ms / 1000} s`}</option>
+              ))}
+            </select>
+          </li>
+        );
+      })}
+    </ul>
+
+    <div className="px-4 py-2 border-t border-white/10 flex justify-between items-center text-[11px] text-white/50">
+      <span>Fist, open hand and pinch always form, explode and grab.</span>
+      <button onClick={onReset} className="bg-white/10 hover:bg-white/20 rounded px-2 py-0.5 text-white/80 shrink-0" title="Restore the default gestures">
+        Reset
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,35 @@
+import React from 'react';
+import { BINDABLE_GESTURES, GESTURE_ACTIONS, GESTURES, GestureBindings } from '../services/gestureBindings';
+
+interface GestureLegendProps {
+  bindings: GestureBindings;
+}
+
+// The gestures that always do the same thing
+const BUILT_IN = [
+  `${GESTURES.fist.emoji} Fist: Form Tree`,
+  `${GESTURES.open.emoji} Open: Explode & Rotate`,
+  `${GESTURES.open.emoji} / ${GESTURES.pinch.emoji} In the Cloud: Push / Gather Particles`,
+  `${GESTURES.point.emoji} Point + ${GESTURES.pinch.emoji} Pinch: Grab a Memory`,
+  '↔️ Swipe Left / Right: Next / Previous Memory, Down: Put Back',
+  `${GESTURES.fist.emoji}${GESTURES.fist.emoji} Double Fist: Next Shape`,
+];
+
+// On-screen help, listing the bound poses next to the built-in ones
+export const GestureLegend: React.FC<GestureLegendProps> = ({ bindings }) => {
+  const bound = BINDABLE_GESTURES.flatMap(gesture => {
+    const { action, holdMs } = bindings[gesture];
+    const label = GESTURE_ACTIONS.find(a => a.id === action)?.label;
+    if (!label) return [];
+    const { emoji, label: name } = GESTURES[gesture];
+    return [`${emoji} ${holdMs > 0 ? `Hold ${name}` : name}: ${label}`];
+  });
+
+  return (
+    <p className="text-white/60 text-sm max-w-md">
+      {[...BUILT_IN, ...bound].map(line => (
+        <React.Fragment key={line}>• {line}<br/></React.Fragment>
+      ))}
+    </p>
+  );
+};
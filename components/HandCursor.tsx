@@ -0,0 +1,59 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+export interface HandCursorState {
+  visible: boolean;
+  position: THREE.Vector3; // World space
+  mode: 'idle' | 'hover' | 'grab';
+}
+
+interface HandCursorProps {
+  cursor: React.MutableRefObject<HandCursorState>;
+}
+
+const COLORS: Record<HandCursorState['mode'], THREE.Color> = {
+  idle: new THREE.Color('#ffffff'),
+  hover: new THREE.Color('#ffd700'),
+  grab: new THREE.Color('#ff4d4d'),
+};
+const SIZE = 0.35;
+
+// Glowing ring that marks where the index finger points in the scene
+export const HandCursor: React.FC<HandCursorProps> = ({ cursor }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const ringMaterialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const dotMaterialRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  useFrame((state, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    const { visible, position, mode } = cursor.current;
+
+    group.visible = visible;
+    if (!visible) return;
+
+    // Follow closely but take the edge off detection noise
+    group.position.lerp(position, Math.min(1, delta * 20));
+    group.quaternion.copy(state.camera.quaternion);
+    const target = SIZE * (mode === 'hover' ? 1.4 : mode === 'grab' ? 0.8 : 1);
+    group.scale.setScalar(THREE.MathUtils.lerp(group.scale.x, target, Math.min(1, delta * 10)));
+
+    ringMaterialRef.current?.color.lerp(COLORS[mode], Math.min(1, delta * 10));
+    dotMaterialRef.current?.color.lerp(COLORS[mode], Math.min(1, delta * 10));
+  });
+
+  return (
+    <group ref={groupRef} visible={false}>
+      {/* Drawn last and through everything so the cursor never disappears behind the tree */}
+      <mesh renderOrder={10}>
+        <ringGeometry args={[0.7, 1, 32]} />
+        <meshBasicMaterial ref={ringMaterialRef} color="#ffffff" toneMapped={false} transparent opacity={0.9} depthTest={false} />
+      </mesh>
+      <mesh renderOrder={10}>
+        <circleGeometry args={[0.25, 16]} />
+        <meshBasicMaterial ref={dotMaterialRef} color="#ffffff" toneMapped={false} depthTest={false} />
+      </mesh>
+    </group>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { CalibrationProfile, DEFAULT_PROFILE } from '../services/calibration';
+
+interface HandProfilePickerProps {
+  profiles: CalibrationProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onCalibrate: () => void;
+}
+
+export const HandProfilePicker: React.FC<HandProfilePickerProps> = ({ profiles, activeId, onSelect, onRemove, onCalibrate }) => (
+  <div className="flex items-center gap-1 text-white text-xs" data-ui>
+    <span className="text-white/70">✋</span>
+    <select
+      value={activeId}
+      onChange={(e) => onSelect(e.target.value)}
+      className="bg-white/10 hover:bg-white/20 rounded-full px-3 h-7 border border-white/10 outline-none"
+      title="Hand profile"
+    >
+      {profiles.map(p => (
+        <option key={p.id} value={p.id} className="bg-neutral-900">{p.name}</option>
+      ))}
+    </select>
+    <button
+      onClick={onCalibrate}
+      className="bg-white/10 hover:bg-white/20 rounded-full px-3 h-7 border border-white/10 transition-all"
+      title="Measure your open hand, fist and pinch"
+    >
+      Calibrate
+    </button>
+    {activeId !== DEFAULT_PROFILE.id && (
+      <button
+        onClick={() => onRemove(activeId)}
+        className="bg-white/10 hover:bg-white/20 rounded-full w-7 h-7 border border-white/10 transition-all"
+        title="Delete this profile"
+      >
+        ✕
+      </button>
+    )}
+  </div>
+);
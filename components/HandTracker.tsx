@@ -1,22 +1,67 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { handDetectionService } from '../services/handDetectionService';
-import { HandData } from '../types';
+import { HandPipeline, HandPipelineResult, startHandPipeline, startMainThreadPipeline } from '../services/handPipeline';
+import { sessionRecorder } from '../services/sessionRecorder';
+import { performanceMonitor } from '../services/performanceMonitor';
+import { GestureThresholds } from '../services/gestureRecognizer';
+import { GestureEvent, HandData, MultiHandData } from '../types';
 
 interface HandTrackerProps {
   onHandUpdate: (data: HandData | null) => void;
+  onGestureEvent?: (event: GestureEvent) => void;
+  onHandsUpdate?: (data: MultiHandData) => void;
+  onStatusChange?: (status: 'ready' | 'unavailable') => void;
+  onVideoChange?: (video: HTMLVideoElement | null) => void; // The live camera element, e.g. for burning into captures
+  detectionFps?: number; // Upper bound on detections per second, independent of the render rate
+  thresholds?: GestureThresholds; // From the active calibration profile; the recognizer's defaults otherwise
 }
 
-export const HandTracker: React.FC<HandTrackerProps> = ({ onHandUpdate }) => {
+const DEFAULT_DETECTION_FPS = 30;
+const NO_HANDS: MultiHandData = { left: null, right: null, primary: null, twoHand: null };
+
+export const HandTracker: React.FC<HandTrackerProps> = ({ onHandUpdate, onGestureEvent, onHandsUpdate, onStatusChange, onVideoChange, detectionFps = DEFAULT_DETECTION_FPS, thresholds }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const requestRef = useRef<number>();
+  const requestRef = useRef<number | undefined>(undefined);
+  // Read by the detection loop, which is started once
+  const detectionIntervalRef = useRef(1000 / detectionFps);
+  detectionIntervalRef.current = 1000 / detectionFps;
+  const lastDetectionRef = useRef({ timestamp: -Infinity, videoTime: -1 });
+  // Detects hands and recognizes gestures, in a worker where possible
+  const pipelineRef = useRef<HandPipeline | null>(null);
+  const thresholdsRef = useRef(thresholds);
+  thresholdsRef.current = thresholds;
   const [permissionGranted, setPermissionGranted] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [backend, setBackend] = useState<string | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
+
+    const adoptPipeline = (pipeline: HandPipeline) => {
+      if (cancelled) {
+        pipeline.close();
+        return;
+      }
+      pipelineRef.current = pipeline;
+      if (thresholdsRef.current) pipeline.setThresholds(thresholdsRef.current);
+      setBackend(pipeline.location === 'worker' ? `${pipeline.backend} · worker` : pipeline.backend);
+    };
+
+    // The worker died mid-session: whatever it was tracking is gone, so start over on the main thread
+    const fallBackToMainThread = () => {
+      pipelineRef.current = null;
+      onHandUpdate(null);
+      onHandsUpdate?.(NO_HANDS);
+      startMainThreadPipeline(handleResult).then(adoptPipeline, err => {
+        console.error("Hand detection unavailable:", err);
+        setBackend(null);
+      });
+    };
+
     const startCamera = async () => {
       try {
-        await handDetectionService.initialize();
-        
+        adoptPipeline(await startHandPipeline(handleResult, fallBackToMainThread));
+        if (cancelled) return;
+
         const stream = await navigator.mediaDevices.getUserMedia({
           video: {
             width: 640,
@@ -24,83 +69,80 @@ export const HandTracker: React.FC<HandTrackerProps> = ({ onHandUpdate }) => {
             frameRate: { ideal: 30 }
           }
         });
+        // Unmounted while the permission prompt was open: let go of the camera straight away
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
 
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
           videoRef.current.addEventListener('loadeddata', predictWebcam);
           setPermissionGranted(true);
           setLoading(false);
+          onStatusChange?.('ready');
+          onVideoChange?.(videoRef.current);
         }
       } catch (err) {
         console.error("Error accessing camera:", err);
         setLoading(false);
+        onStatusChange?.('unavailable');
       }
     };
 
     startCamera();
 
     return () => {
+      cancelled = true;
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      const pipeline = pipelineRef.current;
+      pipelineRef.current = null;
+      if (pipeline) {
+        pipeline.release(performance.now())
+          .then(events => events.forEach(event => onGestureEvent?.(event)))
+          .finally(() => pipeline.close());
+      }
+      onHandUpdate(null);
+      onHandsUpdate?.(NO_HANDS);
+      onVideoChange?.(null);
       if (videoRef.current && videoRef.current.srcObject) {
         const stream = videoRef.current.srcObject as MediaStream;
         stream.getTracks().forEach(track => track.stop());
       }
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    // Started once per mount; the camera and worker are too expensive to restart for new callbacks
   }, []);
 
+  useEffect(() => {
+    if (thresholds) pipelineRef.current?.setThresholds(thresholds);
+  }, [thresholds]);
+
   const predictWebcam = () => {
     if (!videoRef.current) return;
+    requestRef.current = requestAnimationFrame(predictWebcam);
+    const pipeline = pipelineRef.current;
+    if (!pipeline) return;
 
-    const result = handDetectionService.detect(videoRef.current);
-    
-    if (result && result.landmarks && result.landmarks.length > 0) {
-      // Use the first detected hand
-      const landmarks = result.landmarks[0];
-      
-      // Landmark indices: 0=Wrist, 4=ThumbTip, 8=IndexTip, 12=MiddleTip, etc.
-      const wrist = landmarks[0];
-      const thumbTip = landmarks[4];
-      const indexTip = landmarks[8];
-      const middleTip = landmarks[12];
-      const ringTip = landmarks[16];
-      const pinkyTip = landmarks[20];
-
-      // 1. Detect Open vs Closed (Fist)
-      // Calculate average distance of fingertips to wrist
-      const fingerTips = [indexTip, middleTip, ringTip, pinkyTip];
-      const avgDistToWrist = fingerTips.reduce((acc, tip) => {
-        return acc + Math.sqrt(
-          Math.pow(tip.x - wrist.x, 2) + 
-          Math.pow(tip.y - wrist.y, 2)
-        );
-      }, 0) / 4;
-
-      // Thresholds need tuning based on coordinate system (0-1)
-      const isOpen = avgDistToWrist > 0.25; 
-
-      // 2. Detect Pinch (Thumb + Index)
-      const pinchDist = Math.sqrt(
-        Math.pow(thumbTip.x - indexTip.x, 2) + 
-        Math.pow(thumbTip.y - indexTip.y, 2)
-      );
-      const isPinching = pinchDist < 0.05;
-
-      const handData: HandData = {
-        isOpen,
-        isPinching,
-        pinchDistance: pinchDist,
-        wristPos: wrist,
-        indexTipPos: indexTip,
-        thumbTipPos: thumbTip
-      };
-
-      onHandUpdate(handData);
-    } else {
-      onHandUpdate(null);
-    }
+    // Only detect on new camera frames, and no more often than the quality tier allows.
+    // A little slack so 30 fps detection isn't skipped by rAF jitter.
+    const timestamp = performance.now();
+    const last = lastDetectionRef.current;
+    if (videoRef.current.currentTime === last.videoTime || timestamp - last.timestamp < detectionIntervalRef.current - 4) return;
+    // While the worker is still busy with the previous frame this one is skipped, and the next is tried
+    if (!pipeline.process(videoRef.current, timestamp)) return;
+    lastDetectionRef.current = { timestamp, videoTime: videoRef.current.currentTime };
+  };
 
-    requestRef.current = requestAnimationFrame(predictWebcam);
+  // Arrives in frame order; the worker pipeline drops results that come back out of order
+  const handleResult = ({ timestamp, detectionMs, frame, hands, events }: HandPipelineResult) => {
+    if (!pipelineRef.current) return;
+    performanceMonitor.recordDetection(detectionMs, timestamp, pipelineRef.current.location === 'worker');
+    // Single-hand consumers get the primary hand
+    const primaryHand = hands.primary === 'Left' ? hands.left : hands.right;
+    sessionRecorder.record(timestamp, frame, primaryHand);
+    onHandUpdate(primaryHand);
+    onHandsUpdate?.(hands);
+    events.forEach(event => onGestureEvent?.(event));
   };
 
   return (
@@ -115,6 +157,11 @@ export const HandTracker: React.FC<HandTrackerProps> = ({ onHandUpdate }) => {
           Loading AI...
         </div>
       )}
+      {backend && (
+        <div className="absolute top-1 left-1 z-10 text-[10px] leading-none text-white/70 bg-black/50 px-1 py-0.5 rounded">
+          {backend}
+        </div>
+      )}
       <video
         ref={videoRef}
         className="w-full h-full object-cover transform scale-x-[-1]" // Mirror effect
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandTracker } from './HandTracker';
+import { createInputProvider, InputProvider, InputSink, InputSource, ReplayInputProvider } from '../services/inputProviders';
+import { GestureThresholds } from '../services/gestureRecognizer';
+import { downloadSession, parseSession, RecordedSession, sessionRecorder } from '../services/sessionRecorder';
+
+type InputMode = 'auto' | InputSource;
+
+interface InputManagerProps extends InputSink {
+  onVideoChange?: (video: HTMLVideoElement | null) => void;
+  detectionFps?: number; // Camera hand detection rate
+  thresholds?: GestureThresholds; // Gesture cutoffs for sources that recognize landmarks (camera, replay)
+}
+
+const MODES: { mode: InputMode; label: string }[] = [
+  { mode: 'auto', label: 'Auto' },
+  { mode: 'webcam', label: 'Camera' },
+  { mode: 'pointer', label: 'Mouse' },
+  { mode: 'keyboard', label: 'Keys' },
+];
+
+const HINTS: Record<Exclude<InputSource, 'webcam'>, string> = {
+  pointer: 'Hover = point · Hold click = fist, drag = turn · Hold right click = open hand · Scroll / two fingers = pinch',
+  keyboard: 'Space = open/fist · Arrows = move · Hold P = pinch · Hold T / I / V / R / W = thumbs-up / point / victory / rock-on / wave · Hold = / - = zoom',
+  replay: 'Replaying recorded session',
+};
+
+// Picks which input source feeds HandData. In auto mode the webcam is used,
+// and the mouse/touch provider takes over when the camera is unavailable.
+export const InputManager: React.FC<InputManagerProps> = ({ onHandUpdate, onHandsUpdate, onGestureEvent, onVideoChange, detectionFps, thresholds }) => {
+  const [mode, setMode] = useState<InputMode>('auto');
+  const [cameraStatus, setCameraStatus] = useState<'pending' | 'ready' | 'unavailable'>('pending');
+  const [replaySession, setReplaySession] = useState<RecordedSession | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+
+  const activeSource: InputSource = mode === 'auto'
+    ? (cameraStatus === 'unavailable' ? 'pointer' : 'webcam')
+    : mode;
+
+  useEffect(() => {
+    if (activeSource === 'webcam') return;
+    let provider: InputProvider;
+    if (activeSource === 'replay') {
+      if (!replaySession) return;
+      provider = new ReplayInputProvider(replaySession, true, thresholds);
+    } else {
+      provider = createInputProvider(activeSource);
+    }
+    provider.start({ onHandUpdate, onHandsUpdate, onGestureEvent });
+    return () => provider.stop();
+  }, [activeSource, replaySession, thresholds, onHandUpdate, onHandsUpdate, onGestureEvent]);
+
+  // Recording captures the raw landmarker stream, so it only runs with the camera
+  const toggleRecording = () => {
+    if (sessionRecorder.isRecording) {
+      downloadSession(sessionRecorder.stop());
+      setIsRecording(false);
+    } else {
+      sessionRecorder.start();
+      setIsRecording(true);
+    }
+  };
+
+  useEffect(() => {
+    if (activeSource !== 'webcam' && sessionRecorder.isRecording) {
+      downloadSession(sessionRecorder.stop());
+      setIsRecording(false);
+    }
+  }, [activeSource]);
+
+  const handleSessionFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setReplaySession(parseSession(await file.text()));
+      setMode('replay');
+    } catch (err) {
+      console.error("Could not load hand session:", err);
+      alert(`Could not load hand session: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <>
+      {activeSource === 'webcam' ? (
+        <HandTracker
+          onHandUpdate={onHandUpdate}
+          onHandsUpdate={onHandsUpdate}
+          onGestureEvent={onGestureEvent}
+          onStatusChange={setCameraStatus}
+          onVideoChange={onVideoChange}
+          detectionFps={detectionFps}
+          thresholds={thresholds}
+        />
+      ) : (
+        <div className="absolute bottom-4 right-4 z-50 w-32 h-24 rounded-lg border-2 border-white/20 shadow-lg bg-black/50 backdrop-blur flex items-center justify-center text-white/70 text-[10px] text-center p-2">
+          {HINTS[activeSource]}
+        </div>
+      )}
+
+      <div className="absolute bottom-[7.5rem] right-4 z-50 flex gap-1" data-ui>
+        {MODES.map(({ mode: m, label }) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-2 py-0.5 rounded text-[10px] border border-white/10 transition-all ${mode === m ? 'bg-white/30 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+            title={m === 'auto' ? `Auto (${activeSource})` : label}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => sessionInputRef.current?.click()}
+          className={`px-2 py-0.5 rounded text-[10px] border border-white/10 transition-all ${mode === 'replay' ? 'bg-white/30 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+          title="Replay a recorded hand session"
+        >
+          Replay
+        </button>
+        {activeSource === 'webcam' && (
+          <button
+            onClick={toggleRecording}
+            className={`px-2 py-0.5 rounded text-[10px] border border-white/10 transition-all ${isRecording ? 'bg-red-600/80 text-white animate-pulse' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+            title={isRecording ? 'Stop and save recording' : 'Record hand session'}
+          >
+            {isRecording ? '■ Stop' : '● Rec'}
+          </button>
+        )}
+        <input
+          type="file"
+          ref={sessionInputRef}
+          onChange={handleSessionFile}
+          accept="application/json,.json"
+          className="hidden"
+        />
+      </div>
+    </>
+  );
+};
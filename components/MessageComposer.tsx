@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { createImageFormation, createTextFormation, MESSAGE_FORMATION_ID } from '../services/rasterFormation';
+
+interface MessageComposerProps {
+  // Called once the message formation is registered, so the caller can switch to it
+  onCreated: (formationId: string) => void;
+}
+
+// Lets the user spell a greeting or trace an image with the particles
+export const MessageComposer: React.FC<MessageComposerProps> = ({ onCreated }) => {
+  const [text, setText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    setError(null);
+    createTextFormation(text);
+    onCreated(MESSAGE_FORMATION_ID);
+  };
+
+  const handleImage = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await createImageFormation(file, file.name);
+      onCreated(MESSAGE_FORMATION_ID);
+    } catch (err) {
+      console.error("Could not turn image into a shape:", err);
+      setError(`Couldn't trace "${file.name}". Try a PNG or JPEG image.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1" data-ui>
+      <form onSubmit={handleSubmit} className="flex items-center gap-1 text-white text-sm">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Merry Christmas, Grandma"
+          maxLength={60}
+          className="bg-white/10 focus:bg-white/20 rounded-full px-3 h-7 w-52 border border-white/10 outline-none placeholder-white/30"
+        />
+        <button
+          type="submit"
+          className="bg-white/10 hover:bg-white/20 rounded-full px-3 h-7 border border-white/10 transition-all"
+          title="Spell it with particles"
+        >
+          Spell
+        </button>
+        <button
+          type="button"
+          onClick={() => imageInputRef.current?.click()}
+          disabled={busy}
+          className="bg-white/10 hover:bg-white/20 rounded-full px-3 h-7 border border-white/10 transition-all disabled:opacity-40"
+          title="Trace an image or logo"
+        >
+          {busy ? '…' : 'Image'}
+        </button>
+        <input type="file" ref={imageInputRef} onChange={handleImage} accept="image/*" className="hidden" />
+      </form>
+      {error && <div className="text-xs text-red-300">{error}</div>}
+    </div>
+  );
+};
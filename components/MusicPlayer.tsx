@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+import { Track } from '../hooks/useMusicPlayer';
+
+interface MusicPlayerProps {
+  tracks: Track[];
+  index: number;
+  isPlaying: boolean;
+  volume: number;
+  reactive: boolean;
+  error: string | null;
+  onToggle: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onSelect: (index: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onVolumeChange: (volume: number) => void;
+  onReactiveChange: (reactive: boolean) => void;
+  onClose: () => void;
+}
+
+export const MusicPlayer: React.FC<MusicPlayerProps> = ({
+  tracks, index, isPlaying, volume, reactive, error,
+  onToggle, onNext, onPrevious, onSelect, onAddFiles, onRemove, onVolumeChange, onReactiveChange, onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const buttonClass = 'w-8 h-8 rounded-full bg-white/10 hover:bg-white/20 transition-colors text-sm';
+
+  return (
+    <div
+      className="absolute top-6 right-24 w-72 max-h-[60vh] flex flex-col bg-black/60 backdrop-blur-md rounded-lg border border-white/10 text-white shadow-xl"
+      data-ui
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <span className="text-sm font-semibold tracking-wide">Music</span>
+        <button onClick={onClose} className="text-white/60 hover:text-white" title="Close">✕</button>
+      </div>
+
+      <div className="px-4 py-3 flex flex-col gap-2 border-b border-white/10">
+        <div className="text-xs text-white/80 truncate">{tracks[index]?.name ?? 'No track'}</div>
+        <div className="flex items-center gap-2">
+          <button onClick={onPrevious} className={buttonClass} title="Previous">⏮</button>
+          <button onClick={onToggle} className={buttonClass} title={isPlaying ? 'Pause' : 'Play'}>{isPlaying ? '⏸' : '▶'}</button>
+          <button onClick={onNext} className={buttonClass} title="Next">⏭</button>
+          <input
+            type="range" min={0} max={1} step={0.05} value={volume}
+            onChange={(e) => onVolumeChange(Number(e.target.value))}
+            className="flex-1 accent-red-500"
+            title="Volume"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-white/70" title="Turn off if pulsing or flashing lights bother you">
+          <input type="checkbox" checked={reactive} onChange={(e) => onReactiveChange(e.target.checked)} className="accent-red-500" />
+          Visuals react to music
+        </label>
+        {error && <div className="text-xs text-red-300">{error}</div>}
+      </div>
+
+      <ul className="overflow-y-auto p-2 flex flex-col gap-1">
+        {tracks.map((track, i) => (
+          <li
+            key={track.id}
+            className={`flex items-center gap-2 px-2 py-1 rounded text-xs cursor-pointer ${i === index ? 'bg-white/15' : 'hover:bg-white/5'}`}
+            onClick={() => onSelect(i)}
+          >
+            <span className="flex-1 truncate">{track.name}</span>
+            {track.local && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(track.id); }}
+                className="text-white/40 hover:text-red-400"
+                title="Remove from playlist"
+              >✕</button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="px-4 py-3 border-t border-white/10">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full bg-white/10 hover:bg-white/20 rounded py-1.5 text-xs transition-colors"
+        >
+          Add music files
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) onAddFiles(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
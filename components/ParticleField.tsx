@@ -0,0 +1,372 @@
+import React, { useRef, useMemo, useLayoutEffect, useEffect, useSyncExternalStore } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ParticleConfig, ParticleType } from '../types';
+import { FormationContext, listFormations, subscribeFormations } from '../services/formations';
+import { HandForceField } from '../services/handForce';
+
+interface ParticleFieldProps {
+  particles: ParticleConfig[];
+  formation: string; // Formation id, see services/formations
+  formationContext: FormationContext;
+  handRotation: React.MutableRefObject<number>; // Radians, updated every frame by hand steering
+  jitter?: React.MutableRefObject<number>; // Random shake in scene units, e.g. driven by music
+  wind?: React.MutableRefObject<THREE.Vector3>; // Gust in scene units per second, in this field's space
+  force?: HandForceField; // The hand pushing or pulling particles, in this field's space
+}
+
+// Mesh-backed particle types, each rendered as one InstancedMesh.
+// Emoji particles are drawn separately from a sprite atlas.
+type MeshParticleType = Exclude<ParticleType, 'emoji'>;
+const MESH_TYPES: MeshParticleType[] = ['sphere', 'box', 'cone'];
+
+const ATLAS_CELL_SIZE = 128;
+
+// Mirrors the old drei <Float speed={2} rotationIntensity={0.5} floatIntensity={0.5}> wobble
+const FLOAT_SPEED = 2;
+const FLOAT_ROTATION_INTENSITY = 0.5;
+const FLOAT_INTENSITY = 0.5;
+
+// Particles are springs towards their formation targets, so they carry momentum when pushed
+// around and settle back afterwards. Stiffness 16 (1/s²) eases in about as fast as the old 4/s lerp;
+// damping just below critical leaves a slight overshoot.
+const SPRING_STIFFNESS = 16;
+const SPRING_DAMPING = 6;
+// Longer frames (e.g. after a hitch) are integrated as this many seconds, so the springs stay stable
+const MAX_STEP = 0.05;
+
+// Seconds of wind a particle drifts by, and how quickly the drift follows the wind (1/s)
+const WIND_DRIFT = 0.6;
+const WIND_RESPONSE = 2;
+
+const createGeometry = (type: MeshParticleType): THREE.BufferGeometry => {
+  switch (type) {
+    case 'sphere':
+      return new THREE.SphereGeometry(1, 16, 16);
+    case 'box':
+      return new THREE.BoxGeometry(1, 1, 1);
+    case 'cone':
+      return new THREE.ConeGeometry(1, 2, 8);
+  }
+};
+
+// Standard material whose emissive term is tinted by the per-instance color,
+// so every instance glows in its own color like the old per-particle materials did.
+const createMaterial = (): THREE.MeshStandardMaterial => {
+  const material = new THREE.MeshStandardMaterial({
+    roughness: 0.1,
+    metalness: 0.8,
+    emissive: new THREE.Color('#ffffff'),
+    emissiveIntensity: 0.2,
+  });
+  material.onBeforeCompile = (shader) => {
+    shader.fragmentShader = shader.fragmentShader.replace(
+      'vec3 totalEmissiveRadiance = emissive;',
+      'vec3 totalEmissiveRadiance = emissive * vColor.rgb;'
+    );
+  };
+  return material;
+};
+
+// Draw every distinct emoji into a square grid on a canvas
+const createEmojiAtlas = (emojis: string[]) => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(emojis.length)));
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * ATLAS_CELL_SIZE;
+  canvas.height = columns * ATLAS_CELL_SIZE;
+
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `${ATLAS_CELL_SIZE * 0.75}px sans-serif`;
+    ctx.lineWidth = ATLAS_CELL_SIZE * 0.04;
+    ctx.strokeStyle = '#ffffff';
+
+    emojis.forEach((emoji, index) => {
+      const x = (index % columns + 0.5) * ATLAS_CELL_SIZE;
+      const y = (Math.floor(index / columns) + 0.5) * ATLAS_CELL_SIZE;
+      ctx.strokeText(emoji, x, y);
+      ctx.fillText(emoji, x, y);
+    });
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return { texture, columns };
+};
+
+const emojiVertexShader = /* glsl */ `
+  attribute vec2 aCell;
+  uniform float uColumns;
+  varying vec2 vUv;
+
+  void main() {
+    // Flip the row because canvas rows run top-down while uv.y runs bottom-up
+    vec2 cell = vec2(aCell.x, uColumns - 1.0 - aCell.y);
+    vUv = (uv + cell) / uColumns;
+    gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+  }
+`;
+
+const emojiFragmentShader = /* glsl */ `
+  uniform sampler2D uAtlas;
+  varying vec2 vUv;
+
+  void main() {
+    vec4 color = texture2D(uAtlas, vUv);
+    if (color.a < 0.1) discard;
+    gl_FragColor = color;
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+export const ParticleField: React.FC<ParticleFieldProps> = ({ particles, formation, formationContext, handRotation, jitter, wind, force }) => {
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+  const emojiMeshRef = useRef<THREE.InstancedMesh>(null);
+  const spinAngle = useRef(0);
+  const drift = useRef(new THREE.Vector3());
+  const driftTarget = useMemo(() => new THREE.Vector3(), []);
+
+  // Everything the frame loop needs, laid out as flat typed arrays
+  const layout = useMemo(() => {
+    const count = particles.length;
+    const positions = new Float32Array(count * 3);
+    const velocities = new Float32Array(count * 3);
+    const rotations = new Float32Array(count * 2);
+    const floatOffsets = new Float32Array(count);
+    // Which InstancedMesh a particle lives in (MESH_TYPES index, or -1 for emoji) and its slot there
+    const meshIndex = new Int8Array(count);
+    const instanceIndex = new Uint32Array(count);
+    const meshCounts = MESH_TYPES.map(() => 0);
+
+    const emojis = Array.from(new Set(particles.filter(p => p.type === 'emoji').map(p => p.emoji ?? '')));
+    let emojiCount = 0;
+
+    particles.forEach((p, i) => {
+      positions.set(p.initialPos, i * 3);
+      floatOffsets[i] = Math.random() * 10000;
+
+      if (p.type === 'emoji') {
+        meshIndex[i] = -1;
+        instanceIndex[i] = emojiCount++;
+      } else {
+        const m = MESH_TYPES.indexOf(p.type);
+        meshIndex[i] = m;
+        instanceIndex[i] = meshCounts[m]++;
+      }
+    });
+
+    return {
+      positions, velocities, rotations, floatOffsets,
+      meshIndex, instanceIndex, meshCounts, emojis, emojiCount,
+    };
+  }, [particles]);
+
+  // Target positions of the current formation. Switching formation just swaps this array;
+  // the frame loop springs every particle from wherever it is towards its new target.
+  // Subscribed so a re-registered formation (e.g. a new text message) is picked up immediately
+  const formations = useSyncExternalStore(subscribeFormations, listFormations);
+  const activeFormation = formations.find(f => f.id === formation) ?? formations.find(f => f.id === 'tree');
+  const targets = useMemo(
+    () => activeFormation?.generate(particles.length, formationContext) ?? new Float32Array(particles.length * 3),
+    [activeFormation, formationContext, particles.length]
+  );
+
+  // Each formation starts spinning from its own rest orientation
+  useEffect(() => {
+    spinAngle.current = 0;
+  }, [activeFormation]);
+
+  const geometries = useMemo(() => MESH_TYPES.map(createGeometry), []);
+  const material = useMemo(createMaterial, []);
+  const emojiGeometry = useMemo(() => new THREE.PlaneGeometry(1.2, 1.2), []);
+
+  const emojiMaterial = useMemo(() => {
+    const { texture, columns } = createEmojiAtlas(layout.emojis);
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        uAtlas: { value: texture },
+        uColumns: { value: columns },
+      },
+      vertexShader: emojiVertexShader,
+      fragmentShader: emojiFragmentShader,
+      side: THREE.DoubleSide,
+      transparent: true,
+    });
+  }, [layout.emojis]);
+
+  useEffect(() => () => {
+    geometries.forEach(g => g.dispose());
+    material.dispose();
+    emojiGeometry.dispose();
+  }, [geometries, material, emojiGeometry]);
+
+  useEffect(() => () => {
+    emojiMaterial.uniforms.uAtlas.value.dispose();
+    emojiMaterial.dispose();
+  }, [emojiMaterial]);
+
+  // Per-instance colors and atlas cells only change with the particle set
+  useLayoutEffect(() => {
+    const color = new THREE.Color();
+    const columns = emojiMaterial.uniforms.uColumns.value as number;
+    const cells = new Float32Array(layout.emojiCount * 2);
+
+    particles.forEach((p, i) => {
+      const slot = layout.instanceIndex[i];
+      const m = layout.meshIndex[i];
+      if (m >= 0) {
+        meshRefs.current[m]?.setColorAt(slot, color.set(p.color));
+      } else {
+        const cell = layout.emojis.indexOf(p.emoji ?? '');
+        cells[slot * 2] = cell % columns;
+        cells[slot * 2 + 1] = Math.floor(cell / columns);
+      }
+    });
+
+    meshRefs.current.forEach(mesh => {
+      if (mesh?.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+    emojiMeshRef.current?.geometry.setAttribute('aCell', new THREE.InstancedBufferAttribute(cells, 2));
+  }, [particles, layout, emojiMaterial]);
+
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  // One shared loop moves every particle instead of one useFrame per particle
+  useFrame((state, delta) => {
+    const { positions, velocities, rotations, floatOffsets, meshIndex, instanceIndex } = layout;
+    const time = state.clock.getElapsedTime();
+
+    // Spinning formations (like the explosion) rotate over time, plus any hand rotation
+    spinAngle.current += (activeFormation?.spin ?? 0) * delta;
+    const angle = spinAngle.current + handRotation.current;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    const step = Math.min(delta, MAX_STEP);
+    const field = force && force.strength > 0 ? force : null;
+    const shake = jitter?.current ?? 0;
+    // Each particle catches between half and one and a half times the shared drift
+    if (wind) drift.current.lerp(driftTarget.copy(wind.current).multiplyScalar(WIND_DRIFT), Math.min(1, WIND_RESPONSE * delta));
+    const { x: driftX, y: driftY, z: driftZ } = drift.current;
+
+    for (let i = 0; i < particles.length; i++) {
+      const i3 = i * 3;
+      const x = targets[i3];
+      const z = targets[i3 + 2];
+      // The wind moves the target itself, so the hand's force acts where the particle is drawn
+      const catchWind = 0.5 + (floatOffsets[i] % 1);
+      const tx = x * cos - z * sin + driftX * catchWind;
+      const ty = targets[i3 + 1] + driftY * catchWind;
+      const tz = x * sin + z * cos + driftZ * catchWind;
+
+      let px = positions[i3];
+      let py = positions[i3 + 1];
+      let pz = positions[i3 + 2];
+      let vx = velocities[i3];
+      let vy = velocities[i3 + 1];
+      let vz = velocities[i3 + 2];
+      let spring = SPRING_STIFFNESS;
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+
+      if (field) {
+        const { options } = field;
+        const dx = px - field.x;
+        const dy = py - field.y;
+        const dz = pz - field.z;
+        const dist = Math.hypot(dx, dy, dz);
+        if (field.mode === 'push' && dist < options.pushRadius && dist > 1e-4) {
+          // Out of the palm's way, and along with it as it sweeps through
+          const s = field.strength * (1 - dist / options.pushRadius);
+          const push = (options.pushStrength * s) / dist;
+          ax += dx * push + field.vx * options.sweep * s;
+          ay += dy * push + field.vy * options.sweep * s;
+          az += dz * push + field.vz * options.sweep * s;
+        } else if (field.mode === 'pull' && dist < options.pullRadius && dist > 1e-4) {
+          // Onto a shell around the pinch, circling the view axis; the formation lets go of held particles
+          const s = field.strength * (1 - dist / options.pullRadius);
+          spring *= 1 - options.capture * s;
+          const pull = (options.pullStrength * s * (dist - options.clusterRadius)) / dist;
+          const swirl = (options.swirl * SPRING_DAMPING * s) / dist;
+          const [kx, ky, kz] = field.axis;
+          ax += -dx * pull + (ky * dz - kz * dy) * swirl;
+          ay += -dy * pull + (kz * dx - kx * dz) * swirl;
+          az += -dz * pull + (kx * dy - ky * dx) * swirl;
+        }
+      }
+
+      // Semi-implicit Euler: velocity first, then position with the new velocity
+      vx += ((tx - px) * spring - vx * SPRING_DAMPING + ax) * step;
+      vy += ((ty - py) * spring - vy * SPRING_DAMPING + ay) * step;
+      vz += ((tz - pz) * spring - vz * SPRING_DAMPING + az) * step;
+      px += vx * step;
+      py += vy * step;
+      pz += vz * step;
+      positions[i3] = px;
+      positions[i3 + 1] = py;
+      positions[i3 + 2] = pz;
+      velocities[i3] = vx;
+      velocities[i3 + 1] = vy;
+      velocities[i3 + 2] = vz;
+
+      // Rotate individual particles slightly
+      const p = particles[i];
+      rotations[i * 2] += p.rotationSpeed[0] * delta;
+      rotations[i * 2 + 1] += p.rotationSpeed[1] * delta;
+
+      const floatT = ((floatOffsets[i] + time) / 4) * FLOAT_SPEED;
+      const floatSin = Math.sin(floatT);
+
+      dummy.position.set(
+        positions[i3],
+        positions[i3 + 1] + (floatSin / 10) * FLOAT_INTENSITY,
+        positions[i3 + 2]
+      );
+      if (shake > 0) {
+        const phase = floatOffsets[i] + time * 40;
+        dummy.position.x += Math.sin(phase) * shake;
+        dummy.position.y += Math.sin(phase * 1.3) * shake;
+        dummy.position.z += Math.cos(phase * 0.7) * shake;
+      }
+      dummy.rotation.set(
+        rotations[i * 2] + (Math.cos(floatT) / 8) * FLOAT_ROTATION_INTENSITY,
+        rotations[i * 2 + 1] + (floatSin / 8) * FLOAT_ROTATION_INTENSITY,
+        (floatSin / 20) * FLOAT_ROTATION_INTENSITY
+      );
+      dummy.scale.setScalar(p.scale);
+      dummy.updateMatrix();
+
+      const m = meshIndex[i];
+      const mesh = m >= 0 ? meshRefs.current[m] : emojiMeshRef.current;
+      mesh?.setMatrixAt(instanceIndex[i], dummy.matrix);
+    }
+
+    meshRefs.current.forEach(mesh => {
+      if (mesh) mesh.instanceMatrix.needsUpdate = true;
+    });
+    if (emojiMeshRef.current) emojiMeshRef.current.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <group>
+      {MESH_TYPES.map((type, m) => (
+        <instancedMesh
+          key={`${type}-${layout.meshCounts[m]}`}
+          ref={(mesh) => { meshRefs.current[m] = mesh; }}
+          args={[geometries[m], material, layout.meshCounts[m]]}
+          frustumCulled={false}
+        />
+      ))}
+      <instancedMesh
+        key={`emoji-${layout.emojiCount}`}
+        ref={emojiMeshRef}
+        args={[emojiGeometry, emojiMaterial, layout.emojiCount]}
+        frustumCulled={false}
+      />
+    </group>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { performanceMonitor, PerformanceStats as Stats } from '../services/performanceMonitor';
+import { QUALITY_TIERS, QualityMode, QualityTier } from '../services/quality';
+
+interface PerformanceStatsProps {
+  tier: QualityTier;
+  mode: QualityMode;
+  onModeChange: (mode: QualityMode) => void;
+  particleCount: number; // Particles actually drawn at this tier
+  snowflakeCount: number; // 0 while it isn't snowing
+}
+
+const REFRESH_MS = 500;
+
+// Relative to what the display can show, so 30 fps on a 30 Hz screen is green
+const fpsColor = (fps: number, refreshRate: number | null) => {
+  const share = fps / (refreshRate ?? 60);
+  return share >= 0.9 ? 'text-green-400' : share >= 0.66 ? 'text-yellow-300' : 'text-red-400';
+};
+
+// FPS pill that opens into timings and the quality override
+export const PerformanceStats: React.FC<PerformanceStatsProps> = ({ tier, mode, onModeChange, particleCount, snowflakeCount }) => {
+  const [open, setOpen] = useState(false);
+  const [stats, setStats] = useState<Stats>(() => performanceMonitor.stats());
+
+  useEffect(() => {
+    const timer = setInterval(() => setStats(performanceMonitor.stats()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="absolute bottom-[9.5rem] right-4 z-50 flex flex-col items-end gap-1 text-white text-[10px]" data-ui>
+      {open && (
+        <div className="w-44 flex flex-col gap-1 p-2 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 shadow-xl">
+          <div className="flex justify-between"><span className="text-white/50">Render</span><span>{stats.fps.toFixed(0)} fps · {stats.frameMs.toFixed(1)} ms</span></div>
+          <div className="flex justify-between"><span className="text-white/50">Display</span><span>{stats.refreshRate !== null ? `${stats.refreshRate.toFixed(0)} Hz` : '—'}</span></div>
+          <div className="flex justify-between">
+            <span className="text-white/50">Hands</span>
+            <span>
+              {stats.detectionMs !== null && stats.detectionFps !== null
+                ? `${stats.detectionFps.toFixed(0)} Hz · ${stats.detectionMs.toFixed(1)} ms${stats.detectionInWorker ? ' · worker' : ''}`
+                : '—'}
+            </span>
+          </div>
+          <div className="flex justify-between"><span className="text-white/50">Particles</span><span>{particleCount}</span></div>
+          <div className="flex justify-between"><span className="text-white/50">Snow</span><span>{snowflakeCount > 0 ? `${snowflakeCount} flakes` : 'off'}</span></div>
+          <div className="flex justify-between"><span className="text-white/50">Bloom</span><span>{tier.bloom ? 'on' : 'off'}</span></div>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-white/50">Quality</span>
+            <select
+              value={mode}
+              onChange={(e) => onModeChange(e.target.value)}
+              className="bg-white/10 rounded px-1 py-0.5 outline-none focus:bg-white/20"
+            >
+              <option value="auto" className="bg-neutral-900">Auto ({tier.label})</option>
+              {QUALITY_TIERS.map(t => (
+                <option key={t.id} value={t.id} className="bg-neutral-900">{t.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="px-2 py-0.5 rounded border border-white/10 bg-black/50 hover:bg-black/70 backdrop-blur transition-all"
+        title="Performance and quality"
+      >
+        <span className={fpsColor(stats.fps, stats.refreshRate)}>{stats.fps.toFixed(0)} fps</span>
+        <span className="text-white/50"> · {tier.label}{mode === 'auto' ? ' (auto)' : ''}</span>
+      </button>
+    </div>
+  );
+};
@@ -1,100 +1,307 @@
-import React, { useRef, useState, useMemo } from 'react';
+import React, { useEffect, useRef, useState, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Image, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { PhotoData } from '../types';
+import { resolveTransition, REST_POSE, TransitionPose } from '../services/transitions';
+
+// Why the active photo changed, so cards can enter/leave from the matching side
+export type CardMotion = 'next' | 'previous' | 'dismiss' | 'none';
 
 interface PhotoCardProps {
   data: PhotoData;
   isActive: boolean; // Is this photo currently being "grabbed"
+  motion?: CardMotion;
+  isHovered?: boolean; // The hand cursor points at it
   basePosition: THREE.Vector3; // Where it lives in the cloud
+  zoom?: React.MutableRefObject<number>; // Extra scale while active (two-hand spread)
+  registerTarget?: (id: string, object: THREE.Object3D | null) => void; // Ray-cast target for the hand cursor
+}
+
+const HOVER_SCALE = 1.25;
+
+// Where an active card is presented, in world space, so it stays in front of the camera
+// however the tree group is rotated or scaled
+const ACTIVE_WORLD_POSITION = new THREE.Vector3(0, -2, 4);
+
+// Cards keep the area of the old fixed 3 x 2 card whatever the photo's shape.
+// Placeholders use that old shape until the real size is known.
+const CARD_AREA = 6;
+const DEFAULT_ASPECT = 1.5;
+const ASPECT_RANGE: [number, number] = [0.4, 3]; // Keeps panoramas and tall screenshots manageable
+
+const cardSize = (aspect = DEFAULT_ASPECT): [number, number] => {
+  const clamped = THREE.MathUtils.clamp(aspect, ...ASPECT_RANGE);
+  return [Math.sqrt(CARD_AREA * clamped), Math.sqrt(CARD_AREA / clamped)];
+};
+
+const PLACEHOLDER_COLOR = new THREE.Color('#c8d8f0');
+const FAILED_COLOR = new THREE.Color('#553333');
+
+const DISMISS_DROP = 6;
+// How long the idle motion takes to fade in once a card has arrived
+const IDLE_BLEND_SECONDS = 0.5;
+
+interface CardPhase {
+  kind: 'idle' | 'enter' | 'active' | 'exit';
+  start: number | null; // Clock time the phase began, stamped on its first frame
+  side: number;
+  dismiss: boolean;
+  fromPosition: THREE.Vector3; // World space
+  fromScale: number; // World space
 }
 
-export const PhotoCard: React.FC<PhotoCardProps> = ({ data, isActive, basePosition }) => {
+const fillPose = (pose: Partial<TransitionPose>): TransitionPose => ({ ...REST_POSE, ...pose });
+
+const mixPose = (a: TransitionPose, b: TransitionPose, t: number): TransitionPose => {
+  const mix = THREE.MathUtils.lerp;
+  return {
+    offset: [mix(a.offset[0], b.offset[0], t), mix(a.offset[1], b.offset[1], t), mix(a.offset[2], b.offset[2], t)],
+    rotation: [mix(a.rotation[0], b.rotation[0], t), mix(a.rotation[1], b.rotation[1], t), mix(a.rotation[2], b.rotation[2], t)],
+    scale: mix(a.scale, b.scale, t),
+    opacity: mix(a.opacity, b.opacity, t),
+    dissolve: mix(a.dissolve, b.dissolve, t),
+  };
+};
+
+// Screen-aligned offset -> world space
+const offsetVector = (offset: TransitionPose['offset'], camera: THREE.Camera) =>
+  new THREE.Vector3(...offset).applyQuaternion(camera.quaternion);
+
+// Snow dissolve: the photo falls apart into a grid of flakes that drop out in random order,
+// each one flashing white just before it goes
+const dissolveShader = (amount: { value: number }) => (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.uniforms.uDissolve = amount;
+  shader.fragmentShader = `uniform float uDissolve;\n${shader.fragmentShader}`.replace(
+    '#include <map_fragment>',
+    `#include <map_fragment>
+    #ifdef USE_MAP
+      vec2 flakeCell = floor(vMapUv * 40.0);
+    #else
+      vec2 flakeCell = floor(gl_FragCoord.xy / 8.0);
+    #endif
+    float flake = fract(sin(dot(flakeCell, vec2(12.9898, 78.233))) * 43758.5453);
+    if (uDissolve > 0.0) {
+      if (flake < uDissolve) discard;
+      diffuseColor.rgb = mix(diffuseColor.rgb, vec3(1.0), step(flake, uDissolve + 0.08));
+    }`
+  );
+};
+
+export const PhotoCard: React.FC<PhotoCardProps> = ({ data, isActive, motion = 'none', isHovered = false, basePosition, zoom, registerTarget }) => {
   const meshRef = useRef<THREE.Group>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const phase = useRef<CardPhase>({
+    kind: 'idle', start: null, side: 1, dismiss: false, fromPosition: new THREE.Vector3(), fromScale: 1,
+  });
   const [hovered, setHover] = useState(false);
+  // Pointed at by the hand, or by the mouse
+  const highlighted = (isHovered || hovered) && !isActive;
+
+  // Read when the card opens or closes; a new motion on its own doesn't restart the animation
+  const motionRef = useRef(motion);
+  motionRef.current = motion;
+
+  // Next photo comes in from the right and pushes the old one out to the left; previous is the mirror image
+  useEffect(() => {
+    const current = phase.current;
+    const direction = motionRef.current;
+    if (isActive) {
+      current.kind = 'enter';
+      current.side = direction === 'previous' ? -1 : 1;
+    } else if (current.kind !== 'idle') {
+      current.kind = 'exit';
+      current.side = direction === 'previous' ? 1 : -1;
+      current.dismiss = direction === 'dismiss';
+    }
+    current.start = null;
+  }, [isActive]);
+
+  const transition = resolveTransition(data.transitionType);
+  const dissolve = useMemo(() => ({ value: 0 }), []);
+  const applyDissolve = useMemo(() => dissolveShader(dissolve), [dissolve]);
+  const [width, height] = cardSize(data.aspect);
+
+  // Sets the material side of a pose
+  const applyLook = (pose: TransitionPose) => {
+    if (materialRef.current) materialRef.current.opacity = pose.opacity;
+    dissolve.value = pose.dissolve;
+  };
+
+  // Faces the camera, then turns by the pose's own rotation
+  const applyRotation = (group: THREE.Group, camera: THREE.Camera, pose: TransitionPose) => {
+    group.lookAt(camera.position);
+    group.rotateX(pose.rotation[0]);
+    group.rotateY(pose.rotation[1]);
+    group.rotateZ(pose.rotation[2]);
+  };
+
+  // Scripted pose while the card is travelling between the tree and the viewer, worked out in world space
+  const animatePhase = (group: THREE.Group, camera: THREE.Camera, time: number) => {
+    const current = phase.current;
+    const parent = group.parent;
+    const parentScale = parent ? parent.getWorldScale(new THREE.Vector3()).x : 1;
+    if (current.start === null) {
+      current.start = time;
+      group.getWorldPosition(current.fromPosition);
+      current.fromScale = group.scale.x * parentScale;
+    }
+
+    const entering = current.kind === 'enter';
+    const timeline = entering ? transition.enter : transition.exit;
+    const progress = Math.min(1, (time - current.start) / timeline.duration);
+    const travel = timeline.easing(progress);
+    const pose = fillPose(timeline.pose(progress, { side: current.side }));
+    if (!entering && current.dismiss) {
+      pose.offset = [pose.offset[0], pose.offset[1] - Math.pow(progress, 3) * DISMISS_DROP, pose.offset[2]];
+    }
+
+    const targetPos = entering ? ACTIVE_WORLD_POSITION.clone() : parent ? parent.localToWorld(basePosition.clone()) : basePosition.clone();
+    const targetScale = entering ? 3.5 * (zoom?.current ?? 1) : 0.4 * parentScale;
+
+    const position = current.fromPosition.clone().lerp(targetPos, travel).add(offsetVector(pose.offset, camera));
+    group.position.copy(parent ? parent.worldToLocal(position) : position);
+    // Never quite zero, so the matrix stays invertible for ray-casting
+    const scale = THREE.MathUtils.lerp(current.fromScale, targetScale, travel) * pose.scale;
+    group.scale.setScalar(Math.max(0.001, scale / parentScale));
+
+    applyRotation(group, camera, pose);
+    applyLook(pose);
+
+    if (progress >= 1) {
+      current.kind = entering ? 'active' : 'idle';
+      current.start = time;
+    }
+  };
 
   // Define transition animation logic
   useFrame((state, delta) => {
     if (!meshRef.current) return;
+    const group = meshRef.current;
+    const current = phase.current;
+    const time = state.clock.getElapsedTime();
+
+    // Frosty shimmer while the image is still being decoded
+    if (data.status === 'loading' && materialRef.current) {
+      materialRef.current.color.copy(PLACEHOLDER_COLOR).multiplyScalar(0.75 + Math.sin(time * 4) * 0.25);
+    }
+
+    if (current.kind === 'enter' || current.kind === 'exit') {
+      animatePhase(group, state.camera, time);
+      return;
+    }
 
-    let targetPos = basePosition.clone();
-    // Increase active scale to 3.5 to make it "slightly larger" and clearer
-    let targetScale = isActive ? 3.5 : 0.4;
-    let targetRot = new THREE.Euler(0, 0, 0);
+    const smoothFactor = Math.min(1, delta * 5);
 
     if (isActive) {
-      // Move to front center
-      targetPos.set(0, 0, 4); // Close to camera
-      
-      // Apply unique transitions based on type
-      const time = state.clock.getElapsedTime();
-      
-      switch (data.transitionType) {
-        case 'spin':
-          targetRot.z = Math.sin(time * 2) * 0.2;
-          break;
-        case 'slide':
-          targetPos.x += Math.sin(time * 3) * 0.5;
-          break;
-        case 'pop':
-          targetScale += Math.sin(time * 10) * 0.1;
-          break;
-        case 'fade':
-           // Fade handled by opacity mostly, but let's float it
-           targetPos.y += Math.sin(time) * 0.2;
-           break;
+      // The transition's idle motion, eased in from rest so it picks up where the entrance ended
+      const blend = Math.min(1, (time - (current.start ?? time)) / IDLE_BLEND_SECONDS);
+      const pose = mixPose(REST_POSE, fillPose(transition.idle(time)), blend);
+
+      // Move to front center, converted into the (possibly rotated/scaled) tree group's space
+      const targetPos = ACTIVE_WORLD_POSITION.clone().add(offsetVector(pose.offset, state.camera));
+      // Increase active scale to 3.5 to make it "slightly larger" and clearer
+      let targetScale = 3.5 * (zoom?.current ?? 1) * pose.scale;
+      const parent = group.parent;
+      if (parent) {
+        parent.worldToLocal(targetPos);
+        targetScale /= parent.getWorldScale(new THREE.Vector3()).x;
       }
-    } else {
-      // Return to tree/cloud
-      // Add a slight orbit for idle animation
-      const time = state.clock.getElapsedTime();
-      targetPos.y += Math.sin(time + parseFloat(data.id)) * 0.05;
+
+      group.position.lerp(targetPos, smoothFactor);
+      group.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), smoothFactor);
+      applyRotation(group, state.camera, pose);
+      applyLook(pose);
+      return;
     }
 
+    // Return to tree/cloud
+    // Add a slight orbit for idle animation
+    const targetPos = basePosition.clone();
+    targetPos.y += Math.sin(time + parseFloat(data.id)) * 0.05;
+    const targetScale = 0.4 * (highlighted ? HOVER_SCALE : 1);
+
     // Smooth transition
-    meshRef.current.position.lerp(targetPos, delta * 5);
-    meshRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), delta * 5);
-    
+    group.position.lerp(targetPos, smoothFactor);
+    group.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), smoothFactor);
+
     // Rotation smoothing
-    meshRef.current.rotation.x = THREE.MathUtils.lerp(meshRef.current.rotation.x, targetRot.x, delta * 5);
-    meshRef.current.rotation.y = THREE.MathUtils.lerp(meshRef.current.rotation.y, targetRot.y, delta * 5);
-    meshRef.current.rotation.z = THREE.MathUtils.lerp(meshRef.current.rotation.z, targetRot.z, delta * 5);
+    group.rotation.x = THREE.MathUtils.lerp(group.rotation.x, 0, smoothFactor);
+    group.rotation.y = THREE.MathUtils.lerp(group.rotation.y, 0, smoothFactor);
+    group.rotation.z = THREE.MathUtils.lerp(group.rotation.z, 0, smoothFactor);
 
-    // Look at camera if active or hovered
-    if (isActive) {
-        meshRef.current.lookAt(state.camera.position);
+    // Whatever an exit left behind (faded, shrunk, melted) grows back in the tree
+    if (materialRef.current) {
+      materialRef.current.opacity = THREE.MathUtils.lerp(materialRef.current.opacity, 1, smoothFactor);
     }
+    dissolve.value = THREE.MathUtils.lerp(dissolve.value, 0, smoothFactor);
   });
 
   return (
     <group ref={meshRef} position={basePosition}>
-      <mesh 
+      <mesh
+        ref={(mesh) => registerTarget?.(data.id, mesh)}
+        userData={{ photoId: data.id }}
         onPointerOver={() => setHover(true)} 
         onPointerOut={() => setHover(false)}
       >
-        <planeGeometry args={[3, 2]} /> {/* Aspect ratio approx */}
-        <meshBasicMaterial 
-          map={data.texture} 
-          transparent 
-          opacity={1}
-          side={THREE.DoubleSide}
-        />
+        <planeGeometry args={[width, height]} />
+        {data.texture ? (
+          <meshBasicMaterial 
+            key="photo"
+            ref={materialRef}
+            map={data.texture} 
+            onBeforeCompile={applyDissolve}
+            transparent 
+            opacity={1}
+            side={THREE.DoubleSide}
+          />
+        ) : (
+          <meshBasicMaterial
+            key="placeholder"
+            ref={materialRef}
+            color={data.status === 'error' ? FAILED_COLOR : PLACEHOLDER_COLOR}
+            onBeforeCompile={applyDissolve}
+            transparent
+            side={THREE.DoubleSide}
+          />
+        )}
         {/* Glow Border for active state */}
         {isActive && (
-            <Html center transform position={[0, -1.2, 0]}>
-                <div className="text-white bg-black/50 px-2 py-1 rounded text-sm whitespace-nowrap backdrop-blur-md">
-                   Memory
+            <Html center transform position={[0, -height / 2 - 0.2, 0]}>
+                <div className="text-white bg-black/50 px-2 py-1 rounded text-sm whitespace-nowrap backdrop-blur-md text-center">
+                   {data.caption || (data.status === 'error' ? 'This photo could not be opened' : 'Memory')}
+                   {data.date && (
+                     <div className="text-white/60 text-xs">{new Date(`${data.date}T00:00:00`).toLocaleDateString()}</div>
+                   )}
                 </div>
             </Html>
         )}
       </mesh>
       
-      {/* Backside of photo - Gift wrapping pattern maybe? kept simple for now */}
-      <mesh rotation={[0, Math.PI, 0]}>
-         <planeGeometry args={[3.1, 2.1]} />
-         <meshStandardMaterial color="#881111" roughness={0.4} />
-      </mesh>
+      {/* Hover highlight: a glowing frame just behind the photo */}
+      {highlighted && (
+        <mesh position={[0, 0, -0.01]}>
+          <planeGeometry args={[width + 0.3, height + 0.3]} />
+          <meshBasicMaterial color="#ffd700" toneMapped={false} />
+        </mesh>
+      )}
+
+      {/* Backside of photo: gift wrapping with a ribbon, just behind the photo so they don't z-fight */}
+      <group position={[0, 0, -0.005]} rotation={[0, Math.PI, 0]}>
+        <mesh>
+          <planeGeometry args={[width + 0.1, height + 0.1]} />
+          <meshStandardMaterial color="#881111" roughness={0.4} />
+        </mesh>
+        <mesh position={[0, 0, 0.002]}>
+          <planeGeometry args={[0.3, height + 0.1]} />
+          <meshStandardMaterial color="#ffd700" roughness={0.3} metalness={0.6} />
+        </mesh>
+        <mesh position={[0, 0, 0.002]}>
+          <planeGeometry args={[width + 0.1, 0.3]} />
+          <meshStandardMaterial color="#ffd700" roughness={0.3} metalness={0.6} />
+        </mesh>
+      </group>
     </group>
   );
 };
\ No newline at end of file
@@ -0,0 +1,107 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { PhotoData } from '../types';
+import { PhotoPatch } from '../hooks/usePhotoLibrary';
+import { listTransitions, subscribeTransitions } from '../services/transitions';
+
+interface PhotoManagerProps {
+  photos: PhotoData[];
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, patch: PhotoPatch) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onClose: () => void;
+}
+
+export const PhotoManager: React.FC<PhotoManagerProps> = ({ photos, onRemove, onUpdate, onMove, onClose }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const transitions = useSyncExternalStore(subscribeTransitions, listTransitions);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) onMove(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div
+      className="absolute top-64 left-6 w-80 max-h-[55vh] flex flex-col bg-black/60 backdrop-blur-md rounded-lg border border-white/10 text-white shadow-xl"
+      data-ui
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <span className="text-sm font-semibold tracking-wide">Photos ({photos.length})</span>
+        <button onClick={onClose} className="text-white/60 hover:text-white" title="Close">✕</button>
+      </div>
+
+      {photos.length === 0 && (
+        <div className="px-4 py-6 text-center text-white/40 text-sm">No photos yet</div>
+      )}
+
+      <ul className="overflow-y-auto p-2 flex flex-col gap-2">
+        {photos.map((photo, index) => (
+          <li
+            key={photo.id}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => { e.preventDefault(); setDropIndex(index); }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+            className={`flex gap-3 p-2 rounded-md bg-white/5 border transition-all cursor-grab ${dropIndex === index && dragIndex !== index ? 'border-red-400/60' : 'border-transparent'} ${dragIndex === index ? 'opacity-40' : ''}`}
+          >
+            {photo.status === 'ready' ? (
+              <img src={photo.url} alt={photo.caption} decoding="async" loading="lazy" className="w-16 h-16 object-cover rounded pointer-events-none" />
+            ) : (
+              <div
+                className={`w-16 h-16 shrink-0 rounded flex items-center justify-center text-xs text-white/50 ${photo.status === 'loading' ? 'bg-white/10 animate-pulse' : 'bg-red-900/40'}`}
+                title={photo.status === 'error' ? 'This photo could not be opened' : 'Loading…'}
+              >
+                {photo.status === 'error' && '⚠'}
+              </div>
+            )}
+
+            <div className="flex-1 min-w-0 flex flex-col gap-1">
+              <input
+                type="text"
+                value={photo.caption}
+                placeholder="Caption"
+                onChange={(e) => onUpdate(photo.id, { caption: e.target.value })}
+                className="w-full bg-white/10 rounded px-2 py-0.5 text-xs placeholder-white/30 outline-none focus:bg-white/20"
+              />
+              <div className="flex gap-1">
+                <input
+                  type="date"
+                  value={photo.date ?? ''}
+                  onChange={(e) => onUpdate(photo.id, { date: e.target.value || undefined })}
+                  className="flex-1 min-w-0 bg-white/10 rounded px-1 py-0.5 text-xs outline-none focus:bg-white/20 [color-scheme:dark]"
+                />
+                <select
+                  value={photo.transitionType}
+                  onChange={(e) => onUpdate(photo.id, { transitionType: e.target.value })}
+                  className="bg-white/10 rounded px-1 py-0.5 text-xs outline-none focus:bg-white/20"
+                  title="Transition"
+                >
+                  {transitions.map(t => (
+                    <option key={t.id} value={t.id} className="bg-neutral-900">{t.label}</option>
+                  ))}
+                  {!transitions.some(t => t.id === photo.transitionType) && (
+                    <option value={photo.transitionType} className="bg-neutral-900">{photo.transitionType} (missing)</option>
+                  )}
+                </select>
+              </div>
+            </div>
+
+            <button
+              onClick={() => onRemove(photo.id)}
+              className="self-start text-white/40 hover:text-red-400 transition-colors"
+              title="Delete photo"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
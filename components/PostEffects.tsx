@@ -0,0 +1,33 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
+import type { BloomEffect } from 'postprocessing';
+import { SceneConfig } from '../services/sceneConfig';
+import { audioAnalyser } from '../services/audioAnalyser';
+
+interface PostEffectsProps {
+  config: SceneConfig;
+  allowBloom: boolean; // Off on low quality tiers, whatever the theme says
+}
+
+// Post Processing for the Glow/Bloom effect. Bloom swells with the music.
+export const PostEffects: React.FC<PostEffectsProps> = ({ config, allowBloom }) => {
+  const { bloom, vignette } = config.postProcessing;
+  const bloomRef = useRef<BloomEffect>(null);
+
+  useFrame((state) => {
+    if (!bloomRef.current) return;
+    const levels = audioAnalyser.read(state.clock.elapsedTime);
+    const { band, amount } = config.audio.bloom;
+    bloomRef.current.intensity = bloom.intensity * (1 + amount * levels[band]);
+  });
+
+  return (
+    <EffectComposer>
+      {bloom.enabled && allowBloom && (
+        <Bloom ref={bloomRef} luminanceThreshold={bloom.luminanceThreshold} mipmapBlur intensity={bloom.intensity} radius={bloom.radius} />
+      )}
+      {vignette.enabled && <Vignette eskil={false} offset={vignette.offset} darkness={vignette.darkness} />}
+    </EffectComposer>
+  );
+};
@@ -1,59 +1,125 @@
-import React, { useEffect, useMemo, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import { Environment, OrbitControls, Stars, Sparkles } from '@react-three/drei';
 import * as THREE from 'three';
-import { Particle } from './Particle';
-import { PhotoCard } from './PhotoCard';
-import { HandData, ParticleConfig, PhotoData, ParticleType } from '../types';
+import { ParticleField } from './ParticleField';
+import { CardMotion, PhotoCard } from './PhotoCard';
+import { HandCursor, HandCursorState } from './HandCursor';
+import { Snowfall, SnowTree } from './Snowfall';
+import { HandData, MultiHandData, ParticleConfig, PhotoData } from '../types';
+import { FormationContext, getFormation } from '../services/formations';
+import { rollParticleType, SceneConfig } from '../services/sceneConfig';
+import { audioAnalyser } from '../services/audioAnalyser';
+import { SwipeDetector } from '../services/swipeDetector';
+import { HandSteering } from '../services/handSteering';
+import { HandWind } from '../services/handWind';
+import { ForceInput, HandForceField } from '../services/handForce';
+import { SnowPreset } from '../services/snowfall';
+import { QualityTier, tieredParticleCount, tieredSnowflakeCount } from '../services/quality';
+import { performanceMonitor } from '../services/performanceMonitor';
 
 interface SceneProps {
   handData: React.MutableRefObject<HandData | null>;
+  hands: React.MutableRefObject<MultiHandData | null>;
   photos: PhotoData[];
+  formation: string; // Formation id the particles should morph into
+  config: SceneConfig;
+  stickyPhotos: boolean; // An opened photo stays open after the pinch until swiped down
+  quality: QualityTier;
+  snow: SnowPreset | null; // null while it isn't snowing
+  // Pending next (+1) / previous (-1) memory requests, e.g. from gesture bindings; the frame loop consumes them
+  photoStep: React.MutableRefObject<number>;
+  // Kept up to date by the frame loop, for gestures that should rest while a photo is open
+  photoOpen: React.MutableRefObject<boolean>;
 }
 
-const EMOJIS = ['🎁', '🎄', '🎅', '🔔', '👔', '🧦', '❄️', '🦌'];
-const PARTICLE_COUNT = 300; // Adjusted for performance
-const TREE_HEIGHT = 12;
-const TREE_RADIUS_BASE = 6;
+// Base look of the Sparkles, scaled by the music
+const SPARKLE_SIZE = 4;
+const SPARKLE_OPACITY = 0.5;
 
-export const Scene: React.FC<SceneProps> = ({ handData, photos }) => {
-  const [targetState, setTargetState] = useState<'tree' | 'exploded'>('tree');
+const pick = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const TREE_POSITION: [number, number, number] = [0, -2, 0];
+
+// Limits for the two-hand spread/pinch gesture
+const TREE_SCALE_RANGE: [number, number] = [0.5, 1.8];
+const PHOTO_ZOOM_RANGE: [number, number] = [0.5, 2.5];
+// A second pinch this soon after the first makes both one two-hand gesture rather than a photo pick
+const TWO_HAND_GRACE_MS = 400;
+
+export const Scene: React.FC<SceneProps> = ({ handData, hands, photos, formation, config, stickyPhotos, quality, snow, photoStep, photoOpen }) => {
+  const { particles: particleConfig, tree, lights } = config;
   const [activePhotoId, setActivePhotoId] = useState<string | null>(null);
+  const activePhotoIdRef = useRef<string | null>(null);
+  // Set together with the active photo so the cards know which way to animate
+  const [photoMotion, setPhotoMotion] = useState<CardMotion>('none');
+  const swipeDetector = useMemo(() => new SwipeDetector(), []);
+  // A photo opened by a step request stays open like a sticky one, until pinched away or swiped down
+  const openedByStepRef = useRef(false);
+
+  // Pointing: the index fingertip becomes a 3D cursor, ray-cast against the photo cards
+  const [hoveredPhotoId, setHoveredPhotoId] = useState<string | null>(null);
+  const hoveredPhotoIdRef = useRef<string | null>(null);
+  const wasPinchingRef = useRef(false);
+  // The photo a pinch picked, and what was open before, in case the pinch turns out to be half of a two-hand gesture
+  const pinchPickRef = useRef<{ photoId: string | null; previousId: string | null; timestamp: number } | null>(null);
+  const photoTargets = useRef(new Map<string, THREE.Object3D>());
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const pointer = useMemo(() => new THREE.Vector2(), []);
+  const cursorRef = useRef<HandCursorState>({ visible: false, position: new THREE.Vector3(), mode: 'idle' });
+
+  const registerPhotoTarget = useCallback((id: string, object: THREE.Object3D | null) => {
+    if (object) photoTargets.current.set(id, object);
+    else photoTargets.current.delete(id);
+  }, []);
+
+  // Two-hand gesture state: tree transform persists, photo zoom resets on release
+  const treeGroupRef = useRef<THREE.Group>(null);
+  const treeTransform = useRef({ scale: 1, rotation: 0 });
+  const twoHandBase = useRef<{ scale: number; rotation: number } | null>(null);
+  const photoZoomRef = useRef(1);
+
+  // One closed hand steers the scene: turn (with inertia), tilt and camera distance
+  const steering = useMemo(() => new HandSteering(), []);
+  const handRotationRef = useRef(0);
+  const photoOrbitRef = useRef<THREE.Group>(null);
+
+  // Wind: gusts from a sweeping open hand, plus the snow preset's breeze. World space for the snow,
+  // and the gust alone in tree space for the exploded particles.
+  const handWind = useMemo(() => new HandWind(), []);
+  const windRef = useRef(new THREE.Vector3());
+  const treeGustRef = useRef(new THREE.Vector3());
+  const windScratch = useMemo(() => ({ right: new THREE.Vector3(), up: new THREE.Vector3(), rotation: new THREE.Quaternion() }), []);
+  // Force field: the hand projected onto the plane through the tree's center, in the particles' space
+  const handForce = useMemo(() => new HandForceField(), []);
+  const forceScratch = useMemo(() => ({
+    plane: new THREE.Plane(), point: new THREE.Vector3(), normal: new THREE.Vector3(), center: new THREE.Vector3(),
+  }), []);
+  const snowTree = useMemo<SnowTree>(
+    () => ({ baseY: TREE_POSITION[1] - tree.height / 2, height: tree.height, radius: tree.radius }),
+    [tree.height, tree.radius]
+  );
+
+  // Audio-reactive pieces, updated in the frame loop
+  const starRef = useRef<THREE.Mesh>(null);
+  const starMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const starLightRef = useRef<THREE.PointLight>(null);
+  const sparklesRef = useRef<THREE.Points>(null);
+  const jitterRef = useRef(0);
   
   // Create Particles Data
+  const count = tieredParticleCount(particleConfig.count, quality);
+  // Only a new look re-rolls the particles; the scene config keeps untouched slices the same objects
+  // (see keepUnchanged), so other settings don't restart the fly-in
+  const { emojis, weights, colors } = particleConfig;
   const particles = useMemo(() => {
+    // Shrink particles as the count grows so the tree keeps the density of the original 300
+    const particleScale = Math.min(1, Math.sqrt(300 / count));
     const temp: ParticleConfig[] = [];
-    for (let i = 0; i < PARTICLE_COUNT; i++) {
-      // Tree Form Calculation (Spiral)
-      const t = i / PARTICLE_COUNT;
-      const angle = t * Math.PI * 20; // Multiple loops
-      const y = (t * TREE_HEIGHT) - (TREE_HEIGHT / 2); // -Height/2 to Height/2
-      const r = TREE_RADIUS_BASE * (1 - t); // Radius shrinks as we go up
-      
-      const treePos: [number, number, number] = [
-        Math.cos(angle) * r,
-        y,
-        Math.sin(angle) * r
-      ];
-
-      // Random Types
-      const typeRoll = Math.random();
-      let type: ParticleType = 'sphere';
-      let emoji = undefined;
-      let color = '#ffffff';
-
-      if (typeRoll > 0.6) {
-        type = 'emoji';
-        emoji = EMOJIS[Math.floor(Math.random() * EMOJIS.length)];
-      } else if (typeRoll > 0.4) {
-        type = 'box';
-        color = '#ff3333';
-      } else if (typeRoll > 0.2) {
-        type = 'cone'; // Small trees
-        color = '#228822';
-      } else {
-        color = Math.random() > 0.5 ? '#ffd700' : '#ffffff'; // Gold or White bulbs
-      }
+    for (let i = 0; i < count; i++) {
+      const type = rollParticleType(weights);
+      const emoji = type === 'emoji' ? pick(emojis) : undefined;
+      const color = type === 'emoji' ? '#ffffff' : pick(colors[type]);
 
       temp.push({
         id: i,
@@ -61,104 +127,289 @@ export const Scene: React.FC<SceneProps> = ({ handData, photos }) => {
         emoji,
         color,
         initialPos: [(Math.random() - 0.5) * 20, (Math.random() - 0.5) * 20, (Math.random() - 0.5) * 20],
-        treePos,
-        scale: 0.3 + Math.random() * 0.4,
+        scale: (0.3 + Math.random() * 0.4) * particleScale,
         rotationSpeed: [Math.random(), Math.random(), Math.random()]
       });
     }
     return temp;
-  }, []);
+  }, [emojis, weights, colors, count]);
+
+  const formationContext = useMemo<FormationContext>(
+    () => ({ treeHeight: tree.height, treeRadius: tree.radius }),
+    [tree.height, tree.radius]
+  );
+
+  // The Canvas only reads its camera prop once, so apply config changes by hand. Keyed by value so
+  // unrelated edits don't throw away the user's orbit.
+  const camera = useThree(state => state.camera);
+  const [cameraX, cameraY, cameraZ] = config.camera.position;
+  const cameraFov = config.camera.fov;
+  useEffect(() => {
+    camera.position.set(cameraX, cameraY, cameraZ);
+    if (camera instanceof THREE.PerspectiveCamera) {
+      camera.fov = cameraFov;
+      camera.updateProjectionMatrix();
+    }
+  }, [camera, cameraX, cameraY, cameraZ, cameraFov]);
 
   // Frame Loop for Interaction Logic
-  useFrame((state) => {
+  // The formation is driven by gesture events from App; only the pinch selection is polled here,
+  // and state is only touched when the selection actually changes.
+  useFrame((state, delta) => {
+    performanceMonitor.recordFrame(delta);
     const hand = handData.current;
-    
-    // Default rotation of the whole group
-    const time = state.clock.getElapsedTime();
+    const cursor = cursorRef.current;
+    let nextHoveredId: string | null = null;
 
     if (hand) {
-      // 1. Open/Closed Hand -> Explode/Tree
-      if (hand.isOpen) {
-        setTargetState('exploded');
-      } else {
-        setTargetState('tree');
+      // Mirror X like the webcam preview so pointing right moves the cursor right
+      pointer.set((1 - hand.indexTipPos.x) * 2 - 1, 1 - hand.indexTipPos.y * 2);
+      raycaster.setFromCamera(pointer, state.camera);
+      // A held card is in front of everything, so only look for a new one when nothing is held
+      const hit = activePhotoIdRef.current
+        ? undefined
+        : raycaster.intersectObjects(Array.from(photoTargets.current.values()), false)[0];
+      nextHoveredId = hit?.object.userData.photoId ?? null;
+
+      cursor.visible = true;
+      if (hit) cursor.position.copy(hit.point);
+      else raycaster.ray.at(state.camera.position.length() * 0.8, cursor.position);
+    } else {
+      cursor.visible = false;
+    }
+
+    // Pinch -> Grab Photo: a pinch that starts while pointing at a card holds it until released.
+    // In sticky mode it stays open until dismissed, and pinching empty space keeps the current one.
+    const isPinching = !!hand?.isPinching;
+    const sticky = stickyPhotos || openedByStepRef.current;
+    let nextPhotoId = activePhotoIdRef.current;
+    let motion: CardMotion = 'none';
+    const twoHand = hands.current?.twoHand ?? null;
+    if (isPinching && !wasPinchingRef.current && !twoHand && (nextHoveredId || !sticky)) {
+      pinchPickRef.current = { photoId: nextHoveredId, previousId: nextPhotoId, timestamp: hand?.timestamp ?? 0 };
+      nextPhotoId = nextHoveredId;
+      openedByStepRef.current = false;
+    }
+    if (!isPinching) pinchPickRef.current = null;
+    // Both hands pinched at about the same time: that is the two-hand gesture, so undo the pick and let it scale the tree
+    const pick = pinchPickRef.current;
+    if (twoHand && !twoHandBase.current && pick && nextPhotoId === pick.photoId && (hand?.timestamp ?? 0) - pick.timestamp < TWO_HAND_GRACE_MS) {
+      nextPhotoId = pick.previousId;
+      pinchPickRef.current = null;
+    }
+    if (!isPinching && !sticky) nextPhotoId = null;
+    wasPinchingRef.current = isPinching;
+    // A sticky photo may have been deleted from the library meanwhile
+    if (nextPhotoId && !photos.some(photo => photo.id === nextPhotoId)) nextPhotoId = null;
+
+    // Swipes while a photo is open: left = next, right = previous, down = put it back
+    const swipe = swipeDetector.update(hand ? { x: 1 - hand.wristPos.x, y: hand.wristPos.y } : null, hand?.timestamp ?? 0);
+    if (swipe && nextPhotoId && photos.length > 0) {
+      const index = photos.findIndex(photo => photo.id === nextPhotoId);
+      if (swipe === 'down') {
+        nextPhotoId = null;
+        motion = 'dismiss';
+      } else if ((swipe === 'left' || swipe === 'right') && index >= 0 && photos.length > 1) {
+        const step = swipe === 'left' ? 1 : -1;
+        nextPhotoId = photos[(index + step + photos.length) % photos.length].id;
+        motion = swipe === 'left' ? 'next' : 'previous';
       }
+    }
 
-      // 2. Pinch -> Grab Photo
-      // Simple logic: If pinching, find a photo. If multiple photos, cycle or pick random based on hand X position.
-      if (hand.isPinching) {
-        // Map hand X (0-1) to photo index
-        // Mirror the hand X for intuitive selection
-        const selectionIndex = Math.floor((1 - hand.wristPos.x) * photos.length);
-        const safeIndex = Math.max(0, Math.min(photos.length - 1, selectionIndex));
-        
-        if (photos.length > 0) {
-            setActivePhotoId(photos[safeIndex].id);
-        }
+    // Step requests move through the open photo, or open the first (last) one when none is
+    const step = photoStep.current;
+    photoStep.current = 0;
+    if (step !== 0 && photos.length > 0) {
+      const index = photos.findIndex(photo => photo.id === nextPhotoId);
+      const from = index >= 0 ? index : step > 0 ? -1 : photos.length;
+      nextPhotoId = photos[(((from + step) % photos.length) + photos.length) % photos.length].id;
+      motion = step > 0 ? 'next' : 'previous';
+      openedByStepRef.current = true;
+    }
+    if (!nextPhotoId) openedByStepRef.current = false;
+    cursor.mode = nextPhotoId ? 'grab' : nextHoveredId ? 'hover' : 'idle';
+
+    if (nextHoveredId !== hoveredPhotoIdRef.current) {
+      hoveredPhotoIdRef.current = nextHoveredId;
+      setHoveredPhotoId(nextHoveredId);
+    }
+
+    if (nextPhotoId !== activePhotoIdRef.current) {
+      activePhotoIdRef.current = nextPhotoId;
+      photoOpen.current = nextPhotoId !== null;
+      setActivePhotoId(nextPhotoId);
+      setPhotoMotion(motion);
+    }
+
+    // Both hands pinching: spread/close zooms the active photo (or scales the tree), twist rotates the tree
+    if (twoHand) {
+      if (!twoHandBase.current) twoHandBase.current = { ...treeTransform.current };
+      if (activePhotoIdRef.current) {
+        photoZoomRef.current = THREE.MathUtils.clamp(twoHand.scale, ...PHOTO_ZOOM_RANGE);
       } else {
-        setActivePhotoId(null);
+        treeTransform.current.scale = THREE.MathUtils.clamp(twoHandBase.current.scale * twoHand.scale, ...TREE_SCALE_RANGE);
       }
+      // The camera image is mirrored relative to the user, so invert the twist
+      treeTransform.current.rotation = twoHandBase.current.rotation - twoHand.rotation;
     } else {
-        // Auto rotate if no hand detected? Or just stay in tree mode
-        setTargetState('tree');
-        setActivePhotoId(null);
+      twoHandBase.current = null;
+      photoZoomRef.current = 1;
     }
+
+    // A real fist that isn't pinching or holding a photo grabs the scene itself. Pointing, thumbs-up and the
+    // other finger poses are closed too, but they aim or trigger actions and must leave the scene still.
+    const steers = !!hand && !hand.isOpen && !hand.isPinching && !hand.pose && !activePhotoIdRef.current && !twoHand;
+    steering.update(steers ? { x: 1 - hand.wristPos.x, y: hand.wristPos.y, size: hand.handSize } : null, delta);
+    // ParticleField turns its targets the opposite way round from three's rotation.y
+    handRotationRef.current = -steering.rotation;
+
+    // Gusts blow along the screen, whichever way the camera faces
+    handWind.update(hand?.isOpen ? { x: 1 - hand.wristPos.x, y: hand.wristPos.y } : null, hand?.timestamp ?? 0, delta);
+    const { right, up, rotation } = windScratch;
+    right.setFromMatrixColumn(state.camera.matrixWorld, 0);
+    up.setFromMatrixColumn(state.camera.matrixWorld, 1);
+    const gust = treeGustRef.current.copy(right).multiplyScalar(handWind.x).addScaledVector(up, handWind.y);
+    windRef.current.set(snow?.breeze[0] ?? 0, 0, snow?.breeze[1] ?? 0).add(gust);
+
+    // Music: star pulse, sparkle brightness and particle jitter
+    const levels = audioAnalyser.read(state.clock.elapsedTime);
+    const { audio } = config;
+    const starBoost = 1 + audio.star.amount * levels[audio.star.band];
+    starRef.current?.scale.setScalar(starBoost);
+    if (starMaterialRef.current) starMaterialRef.current.emissiveIntensity = lights.treeTop.intensity * starBoost;
+    if (starLightRef.current) starLightRef.current.intensity = lights.treeTop.intensity * starBoost;
+
+    const sparkles = sparklesRef.current;
+    if (sparkles) {
+      const boost = 1 + audio.sparkles.amount * levels[audio.sparkles.band];
+      const opacity = sparkles.geometry.getAttribute('opacity') as THREE.BufferAttribute | undefined;
+      const size = sparkles.geometry.getAttribute('size') as THREE.BufferAttribute | undefined;
+      if (opacity && size) {
+        (opacity.array as Float32Array).fill(SPARKLE_OPACITY * boost);
+        (size.array as Float32Array).fill(SPARKLE_SIZE * Math.sqrt(boost));
+        opacity.needsUpdate = true;
+        size.needsUpdate = true;
+      }
+    }
+
+    jitterRef.current = audio.jitter.amount * levels[audio.jitter.band];
+
+    if (treeGroupRef.current) {
+      const smoothFactor = Math.min(1, delta * 5);
+      const group = treeGroupRef.current;
+      group.scale.setScalar(THREE.MathUtils.lerp(group.scale.x, treeTransform.current.scale, smoothFactor));
+      group.rotation.y = THREE.MathUtils.lerp(group.rotation.y, treeTransform.current.rotation, smoothFactor);
+      group.rotation.x = THREE.MathUtils.lerp(group.rotation.x, steering.tilt, smoothFactor);
+      // Only the loose particles of an exploded tree get blown around
+      if (formation === 'explosion') gust.applyQuaternion(rotation.copy(group.quaternion).invert()).divideScalar(group.scale.x);
+      else gust.set(0, 0, 0);
+    }
+
+    // An open palm pushes particles aside and a pinch gathers them, unless the hand is busy with a photo
+    let forceInput: ForceInput | null = null;
+    const group = treeGroupRef.current;
+    if (hand && group && !activePhotoIdRef.current && !nextHoveredId && !twoHand && (hand.isOpen || hand.isPinching)) {
+      // Palm center sits about 40% of the way from the wrist to the index fingertip; a pinch is between the tips
+      const [sx, sy] = hand.isPinching
+        ? [(hand.thumbTipPos.x + hand.indexTipPos.x) / 2, (hand.thumbTipPos.y + hand.indexTipPos.y) / 2]
+        : [THREE.MathUtils.lerp(hand.wristPos.x, hand.indexTipPos.x, 0.4), THREE.MathUtils.lerp(hand.wristPos.y, hand.indexTipPos.y, 0.4)];
+      pointer.set((1 - sx) * 2 - 1, 1 - sy * 2);
+      raycaster.setFromCamera(pointer, state.camera);
+      const { plane, point, normal, center } = forceScratch;
+      group.updateMatrixWorld();
+      state.camera.getWorldDirection(normal);
+      plane.setFromNormalAndCoplanarPoint(normal, group.getWorldPosition(center));
+      if (raycaster.ray.intersectPlane(plane, point)) {
+        group.worldToLocal(point);
+        normal.applyQuaternion(group.getWorldQuaternion(rotation).invert());
+        forceInput = { mode: hand.isPinching ? 'pull' : 'push', x: point.x, y: point.y, z: point.z, axis: [normal.x, normal.y, normal.z] };
+      }
+    }
+    handForce.update(forceInput, delta);
+
+    // Photos follow the steered particles, easing in about as fast as ParticleField's springs
+    if (photoOrbitRef.current) {
+      const orbit = photoOrbitRef.current;
+      orbit.rotation.y += (steering.rotation - orbit.rotation.y) * Math.min(1, 4.0 * delta);
+    }
+
+    // Hand depth moves the camera along its current direction, so it combines with OrbitControls' spin
+    const distance = Math.hypot(...config.camera.position) * steering.zoom;
+    state.camera.position.setLength(THREE.MathUtils.lerp(state.camera.position.length(), distance, Math.min(1, delta * 5)));
   });
 
   return (
     <>
-      <ambientLight intensity={0.5} />
-      <pointLight position={[10, 10, 10]} intensity={1} />
-      <spotLight position={[0, 20, 0]} angle={0.5} penumbra={1} intensity={2} castShadow />
+      <ambientLight color={lights.ambient.color} intensity={lights.ambient.intensity} />
+      <pointLight position={lights.point.position} color={lights.point.color} intensity={lights.point.intensity} />
+      <spotLight position={lights.spot.position} color={lights.spot.color} angle={0.5} penumbra={1} intensity={lights.spot.intensity} castShadow />
 
       {/* Environment for reflections */}
       <Environment preset="night" />
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+      {snow && (
+        <Snowfall
+          count={tieredSnowflakeCount(snow.density, quality)}
+          preset={snow}
+          wind={windRef}
+          tree={snowTree}
+          collect={formation === 'tree'}
+        />
+      )}
       
       {/* The Tree / Particle Cloud */}
-      <group position={[0, -2, 0]}>
+      <group ref={treeGroupRef} position={TREE_POSITION}>
         
         {/* Tree Top Star/Light */}
-        <mesh position={[0, TREE_HEIGHT / 2 + 0.5, 0]}>
+        <mesh ref={starRef} position={[0, tree.height / 2 + 0.5, 0]}>
             <dodecahedronGeometry args={[0.8]} />
-            <meshStandardMaterial emissive="#ffff00" emissiveIntensity={2} color="#ffff00" toneMapped={false} />
-            <pointLight distance={10} intensity={2} color="#ffff00" />
+            <meshStandardMaterial ref={starMaterialRef} emissive={lights.treeTop.color} emissiveIntensity={lights.treeTop.intensity} color={lights.treeTop.color} toneMapped={false} />
+            <pointLight ref={starLightRef} distance={10} intensity={lights.treeTop.intensity} color={lights.treeTop.color} />
         </mesh>
 
         {/* Main Particles */}
-        {particles.map((p) => (
-          <Particle 
-            key={p.id} 
-            config={p} 
-            targetState={targetState} 
-            handRotation={0} 
-          />
-        ))}
+        <ParticleField
+          particles={particles}
+          formation={formation}
+          formationContext={formationContext}
+          handRotation={handRotationRef}
+          jitter={jitterRef}
+          wind={treeGustRef}
+          force={handForce}
+        />
 
         {/* Photos embedded in the tree */}
-        {photos.map((photo, index) => {
-            // Distribute photos within the tree volume
-            // We use a fixed position relative to the tree structure based on index
-            const angle = (index / (photos.length || 1)) * Math.PI * 2;
-            const y = (index % 3) * 2 - 1; // Spread vertically
-            const r = 4;
-            const basePos = new THREE.Vector3(Math.cos(angle) * r, y, Math.sin(angle) * r);
-            
-            return (
-                <PhotoCard 
-                    key={photo.id}
-                    data={photo}
-                    isActive={activePhotoId === photo.id}
-                    basePosition={basePos}
-                />
-            );
-        })}
+        <group ref={photoOrbitRef}>
+          {photos.map((photo, index) => {
+              // Distribute photos within the tree volume
+              // We use a fixed position relative to the tree structure based on index
+              const angle = (index / (photos.length || 1)) * Math.PI * 2;
+              const y = (index % 3) * 2 - 1; // Spread vertically
+              const r = 4;
+              const basePos = new THREE.Vector3(Math.cos(angle) * r, y, Math.sin(angle) * r);
+              
+              return (
+                  <PhotoCard 
+                      key={photo.id}
+                      data={photo}
+                      isActive={activePhotoId === photo.id}
+                      motion={photoMotion}
+                      isHovered={hoveredPhotoId === photo.id}
+                      basePosition={basePos}
+                      zoom={photoZoomRef}
+                      registerTarget={registerPhotoTarget}
+                  />
+              );
+          })}
+        </group>
 
         {/* Extra Magic */}
-        <Sparkles count={100} scale={12} size={4} speed={0.4} opacity={0.5} color="#fff" />
+        <Sparkles ref={sparklesRef} count={quality.sparkles} scale={12} size={SPARKLE_SIZE} speed={0.4} opacity={SPARKLE_OPACITY} color="#fff" />
       </group>
 
-      <OrbitControls enableZoom={false} enablePan={false} autoRotate={targetState === 'exploded'} autoRotateSpeed={0.5} />
+      <HandCursor cursor={cursorRef} />
+
+      <OrbitControls enableZoom={false} enablePan={false} autoRotate={!!getFormation(formation)?.spin} autoRotateSpeed={0.5} />
     </>
   );
 };
\ No newline at end of file
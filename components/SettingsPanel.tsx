@@ -0,0 +1,284 @@
+import React, { useRef, useState } from 'react';
+import { AUDIO_BANDS, LightConfig, SceneConfig } from '../services/sceneConfig';
+import { AudioBand } from '../services/audioAnalyser';
+import { BUNDLED_THEMES } from '../services/themes';
+import { BUNDLE_EXTENSION } from '../services/sceneBundle';
+import { ParticleType } from '../types';
+
+interface SettingsPanelProps {
+  config: SceneConfig;
+  onChange: (config: SceneConfig) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  // The whole scene: settings plus photos
+  onExportBundle: () => void;
+  onImportBundle: (file: File) => void;
+  bundleBusy: boolean;
+  onClose: () => void;
+}
+
+const PARTICLE_TYPES: ParticleType[] = ['sphere', 'box', 'cone', 'emoji'];
+const MESH_TYPES = ['sphere', 'box', 'cone'] as const;
+const LIGHTS: [keyof SceneConfig['lights'], string][] = [
+  ['ambient', 'Ambient'], ['point', 'Point'], ['spot', 'Spot'], ['treeTop', 'Tree top'],
+];
+
+const AUDIO_TARGETS: [keyof SceneConfig['audio'], string, number][] = [
+  ['star', 'Star pulse', 2], ['sparkles', 'Sparkles', 5], ['bloom', 'Bloom', 3], ['jitter', 'Jitter', 1],
+];
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-1.5 py-2 border-b border-white/10 last:border-0">
+    <span className="text-[10px] uppercase tracking-widest text-white/40">{title}</span>
+    {children}
+  </div>
+);
+
+const Slider: React.FC<{
+  label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, onChange }) => (
+  <label className="flex items-center gap-2 text-xs">
+    <span className="w-20 shrink-0 text-white/70">{label}</span>
+    <input
+      type="range" min={min} max={max} step={step} value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-1 accent-red-500"
+    />
+    <span className="w-10 text-right tabular-nums text-white/50">{value}</span>
+  </label>
+);
+
+const Toggle: React.FC<{ label: string; value: boolean; onChange: (value: boolean) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-white/70">
+    <input type="checkbox" checked={value} onChange={(e) => onChange(e.target.checked)} className="accent-red-500" />
+    {label}
+  </label>
+);
+
+const ColorSwatch: React.FC<{ value: string; onChange: (value: string) => void; title?: string }> = ({ value, onChange, title }) => (
+  <input
+    type="color" value={value} title={title}
+    onChange={(e) => onChange(e.target.value)}
+    className="w-6 h-6 rounded bg-transparent border border-white/20 cursor-pointer"
+  />
+);
+
+// Live editor for the scene config. Every change is applied immediately.
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  config, onChange, onImport, onExport, onExportBundle, onImportBundle, bundleBusy, onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const [emojiDraft, setEmojiDraft] = useState<string | null>(null);
+
+  const update = (mutate: (draft: SceneConfig) => void) => {
+    const next = structuredClone(config);
+    mutate(next);
+    onChange(next);
+  };
+
+  const commitEmojis = () => {
+    const emojis = (emojiDraft ?? '').split(/\s+/).filter(Boolean);
+    if (emojiDraft !== null && emojis.length > 0) update(d => { d.particles.emojis = emojis; });
+    setEmojiDraft(null);
+  };
+
+  const themeId = Object.keys(BUNDLED_THEMES).find(id => BUNDLED_THEMES[id].name === config.name) ?? '';
+  const { particles, tree, lights, postProcessing, camera } = config;
+
+  return (
+    <div
+      className="absolute top-6 right-24 w-80 max-h-[65vh] flex flex-col bg-black/60 backdrop-blur-md rounded-lg border border-white/10 text-white shadow-xl"
+      data-ui
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <span className="text-sm font-semibold tracking-wide">Scene Settings</span>
+        <button onClick={onClose} className="text-white/60 hover:text-white" title="Close">✕</button>
+      </div>
+
+      <div className="overflow-y-auto px-4 py-1">
+        <Section title="Theme">
+          <div className="flex gap-1">
+            <select
+              value={themeId}
+              onChange={(e) => BUNDLED_THEMES[e.target.value] && onChange(BUNDLED_THEMES[e.target.value])}
+              className="flex-1 min-w-0 bg-white/10 rounded px-2 py-1 text-xs outline-none focus:bg-white/20"
+            >
+              <option value="" disabled className="bg-neutral-900">{themeId ? '' : config.name}</option>
+              {Object.entries(BUNDLED_THEMES).map(([id, theme]) => (
+                <option key={id} value={id} className="bg-neutral-900">{theme.name}</option>
+              ))}
+            </select>
+            <button onClick={() => fileInputRef.current?.click()} className="bg-white/10 hover:bg-white/20 rounded px-2 text-xs" title="Import theme JSON">
+              Import
+            </button>
+            <button onClick={onExport} className="bg-white/10 hover:bg-white/20 rounded px-2 text-xs" title="Export theme JSON">
+              Export
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <input
+            type="text"
+            value={config.name}
+            placeholder="Theme name"
+            onChange={(e) => update(d => { d.name = e.target.value; })}
+            className="bg-white/10 rounded px-2 py-1 text-xs placeholder-white/30 outline-none focus:bg-white/20"
+          />
+        </Section>
+
+        <Section title="Whole scene">
+          <div className="flex gap-1">
+            <button
+              onClick={onExportBundle}
+              disabled={bundleBusy}
+              className="flex-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded py-1 text-xs"
+              title={`Save settings and photos as one ${BUNDLE_EXTENSION} file`}
+            >
+              {bundleBusy ? 'Working…' : 'Save scene'}
+            </button>
+            <button
+              onClick={() => bundleInputRef.current?.click()}
+              disabled={bundleBusy}
+              className="flex-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded py-1 text-xs"
+              title={`Open a ${BUNDLE_EXTENSION} file, replacing the current settings and photos`}
+            >
+              Open scene
+            </button>
+            <input
+              ref={bundleInputRef}
+              type="file"
+              accept={BUNDLE_EXTENSION}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file && confirm('Replace the current settings and photos with this scene?')) onImportBundle(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </Section>
+
+        <Section title="Particles">
+          <Slider label="Count" value={particles.count} min={100} max={10000} step={100}
+            onChange={(v) => update(d => { d.particles.count = v; })} />
+          {PARTICLE_TYPES.map(type => (
+            <Slider key={type} label={`${type} odds`} value={particles.weights[type]} min={0} max={1} step={0.05}
+              onChange={(v) => update(d => { d.particles.weights[type] = v; })} />
+          ))}
+          {MESH_TYPES.map(type => (
+            <div key={type} className="flex items-center gap-1 text-xs">
+              <span className="w-20 shrink-0 text-white/70">{type} colors</span>
+              {particles.colors[type].map((color, i) => (
+                <ColorSwatch key={i} value={color} title={color}
+                  onChange={(v) => update(d => { d.particles.colors[type][i] = v; })} />
+              ))}
+              <button
+                onClick={() => update(d => { d.particles.colors[type].push('#ffffff'); })}
+                className="w-6 h-6 rounded bg-white/10 hover:bg-white/20" title="Add color"
+              >+</button>
+              {particles.colors[type].length > 1 && (
+                <button
+                  onClick={() => update(d => { d.particles.colors[type].pop(); })}
+                  className="w-6 h-6 rounded bg-white/10 hover:bg-white/20" title="Remove last color"
+                >−</button>
+              )}
+            </div>
+          ))}
+          <label className="flex items-center gap-2 text-xs">
+            <span className="w-20 shrink-0 text-white/70">Emojis</span>
+            <input
+              type="text"
+              value={emojiDraft ?? particles.emojis.join(' ')}
+              onChange={(e) => setEmojiDraft(e.target.value)}
+              onBlur={commitEmojis}
+              onKeyDown={(e) => { if (e.key === 'Enter') commitEmojis(); }}
+              className="flex-1 min-w-0 bg-white/10 rounded px-2 py-1 outline-none focus:bg-white/20"
+            />
+          </label>
+        </Section>
+
+        <Section title="Tree">
+          <Slider label="Height" value={tree.height} min={4} max={20} step={0.5}
+            onChange={(v) => update(d => { d.tree.height = v; })} />
+          <Slider label="Radius" value={tree.radius} min={1} max={12} step={0.5}
+            onChange={(v) => update(d => { d.tree.radius = v; })} />
+        </Section>
+
+        <Section title="Lights">
+          {LIGHTS.map(([key, label]) => {
+            const light: LightConfig = lights[key];
+            return (
+              <div key={key} className="flex items-center gap-2">
+                <ColorSwatch value={light.color} onChange={(v) => update(d => { d.lights[key].color = v; })} />
+                <div className="flex-1">
+                  <Slider label={label} value={light.intensity} min={0} max={5} step={0.1}
+                    onChange={(v) => update(d => { d.lights[key].intensity = v; })} />
+                </div>
+              </div>
+            );
+          })}
+        </Section>
+
+        <Section title="Bloom">
+          <Toggle label="Enabled" value={postProcessing.bloom.enabled}
+            onChange={(v) => update(d => { d.postProcessing.bloom.enabled = v; })} />
+          <Slider label="Intensity" value={postProcessing.bloom.intensity} min={0} max={5} step={0.1}
+            onChange={(v) => update(d => { d.postProcessing.bloom.intensity = v; })} />
+          <Slider label="Threshold" value={postProcessing.bloom.luminanceThreshold} min={0} max={2} step={0.05}
+            onChange={(v) => update(d => { d.postProcessing.bloom.luminanceThreshold = v; })} />
+          <Slider label="Radius" value={postProcessing.bloom.radius} min={0} max={1} step={0.05}
+            onChange={(v) => update(d => { d.postProcessing.bloom.radius = v; })} />
+        </Section>
+
+        <Section title="Vignette">
+          <Toggle label="Enabled" value={postProcessing.vignette.enabled}
+            onChange={(v) => update(d => { d.postProcessing.vignette.enabled = v; })} />
+          <Slider label="Offset" value={postProcessing.vignette.offset} min={0} max={1} step={0.05}
+            onChange={(v) => update(d => { d.postProcessing.vignette.offset = v; })} />
+          <Slider label="Darkness" value={postProcessing.vignette.darkness} min={0} max={3} step={0.05}
+            onChange={(v) => update(d => { d.postProcessing.vignette.darkness = v; })} />
+        </Section>
+
+        <Section title="Music reactivity">
+          {AUDIO_TARGETS.map(([key, label, max]) => (
+            <div key={key} className="flex items-center gap-2">
+              <select
+                value={config.audio[key].band}
+                onChange={(e) => update(d => { d.audio[key].band = e.target.value as AudioBand; })}
+                className="w-16 shrink-0 bg-white/10 rounded px-1 py-0.5 text-xs outline-none focus:bg-white/20"
+                title={`What drives the ${label.toLowerCase()}`}
+              >
+                {AUDIO_BANDS.map(band => (
+                  <option key={band} value={band} className="bg-neutral-900">{band}</option>
+                ))}
+              </select>
+              <div className="flex-1">
+                <Slider label={label} value={config.audio[key].amount} min={0} max={max} step={0.05}
+                  onChange={(v) => update(d => { d.audio[key].amount = v; })} />
+              </div>
+            </div>
+          ))}
+        </Section>
+
+        <Section title="Camera">
+          <Slider label="Field of view" value={camera.fov} min={20} max={90} step={1}
+            onChange={(v) => update(d => { d.camera.fov = v; })} />
+          <Slider label="Distance" value={camera.position[2]} min={8} max={50} step={1}
+            onChange={(v) => update(d => { d.camera.position[2] = v; })} />
+          <Slider label="Height" value={camera.position[1]} min={-10} max={15} step={0.5}
+            onChange={(v) => update(d => { d.camera.position[1] = v; })} />
+        </Section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { SNOW_PRESETS, SnowPreset } from '../services/snowfall';
+
+interface SnowControlsProps {
+  enabled: boolean;
+  preset: SnowPreset;
+  onToggle: () => void;
+  onPresetChange: (id: string) => void;
+}
+
+export const SnowControls: React.FC<SnowControlsProps> = ({ enabled, preset, onToggle, onPresetChange }) => (
+  <div className="flex items-center gap-1 text-white text-xs" data-ui>
+    <button
+      onClick={onToggle}
+      className={`rounded-full px-3 h-7 border border-white/10 transition-all ${enabled ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+      title={enabled ? 'Stop the snow' : 'Let it snow'}
+    >
+      ❄️ Snow {enabled ? 'on' : 'off'}
+    </button>
+    <select
+      value={preset.id}
+      onChange={(e) => onPresetChange(e.target.value)}
+      className="bg-white/10 hover:bg-white/20 rounded-full px-3 h-7 border border-white/10 outline-none"
+      title="Snow intensity"
+    >
+      {SNOW_PRESETS.map(p => (
+        <option key={p.id} value={p.id} className="bg-neutral-900">{p.label}</option>
+      ))}
+    </select>
+  </div>
+);
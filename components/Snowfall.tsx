@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SnowPreset } from '../services/snowfall';
+
+// The cone flakes settle on, in world space
+export interface SnowTree {
+  baseY: number;
+  height: number;
+  radius: number;
+}
+
+interface SnowfallProps {
+  count: number;
+  preset: SnowPreset;
+  wind: React.MutableRefObject<THREE.Vector3>; // World space, scene units per second
+  tree: SnowTree;
+  collect: boolean; // Flakes settle on the tree for a while (when it is in tree form)
+}
+
+// Box the flakes fall through, centered on the scene
+const AREA_WIDTH = 30;
+const AREA_TOP = 12;
+const AREA_BOTTOM = -12;
+// Seconds a flake rests on the tree before melting away
+const REST_SECONDS = 4;
+// How quickly collecting fades in or out when the formation changes (1/s)
+const COLLECT_RATE = 1.5;
+// How far the wind has carried the air so far is sampled this often (seconds), far enough back to
+// cover the slowest flake's whole fall
+const WIND_HISTORY_STEP = 1.5;
+const WIND_HISTORY_SIZE = 48;
+
+// Every flake's position is a function of time, computed in the vertex shader, so thousands of
+// flakes cost the CPU nothing per frame. A flake falls down its own column, carried by all the wind
+// since it started falling, rests where it meets the tree when collecting, then starts over at the top.
+const vertexShader = /* glsl */ `
+  #define HISTORY_SIZE ${WIND_HISTORY_SIZE}
+  #define HISTORY_STEP ${WIND_HISTORY_STEP.toFixed(2)}
+  #define AREA_WIDTH ${AREA_WIDTH.toFixed(1)}
+
+  uniform float uTime;
+  uniform float uSpeed;
+  uniform float uSize;
+  uniform float uScale;
+  uniform vec2 uHeight;
+  uniform vec3 uWindOffset; // Wind integrated over time, now
+  uniform vec3 uWindHistory[HISTORY_SIZE]; // The same at uHistoryTime, then HISTORY_STEP seconds earlier each
+  uniform float uHistoryTime;
+  uniform vec3 uTree;
+  uniform float uCollect;
+  uniform float uRest;
+  attribute vec3 aFlake; // Phase (0-1), speed multiplier, size multiplier
+  varying float vAlpha;
+
+  const float SWAY = 0.35;
+
+  vec3 windOffsetAt(float t) {
+    if (t >= uHistoryTime) {
+      return mix(uWindHistory[0], uWindOffset, clamp((t - uHistoryTime) / max(uTime - uHistoryTime, 0.0001), 0.0, 1.0));
+    }
+    float k = min((uHistoryTime - t) / HISTORY_STEP, float(HISTORY_SIZE - 1) - 0.001);
+    int i = int(k);
+    return mix(uWindHistory[i], uWindHistory[i + 1], fract(k));
+  }
+
+  // Wrapped back into the area, so a steady breeze doesn't blow the whole snowfall out of it
+  vec2 wrapped(vec2 xz) {
+    return mod(xz + AREA_WIDTH * 0.5, AREA_WIDTH) - AREA_WIDTH * 0.5;
+  }
+
+  void main() {
+    float speed = uSpeed * aFlake.y;
+    float top = uHeight.x;
+    float fullFall = top - uHeight.y;
+    float restDistance = uRest * speed;
+    float cycle = fullFall + restDistance;
+    float d = mod(uTime * speed + aFlake.x * cycle, cycle);
+
+    // Blown from its column by the wind since it started falling, up to the moment it lands
+    float startedAt = uTime - d / speed;
+    vec3 startOffset = windOffsetAt(startedAt);
+
+    // Where the flake meets the tree, or the ground when it misses the tree or nothing collects.
+    // Its landing spot depends on when it lands, so start from the tree height at the column.
+    float radial = length(position.xz);
+    float guess = radial < uTree.z ? uTree.x + uTree.y * (1.0 - radial / uTree.z) : uHeight.y;
+    vec3 guessOffset = windOffsetAt(min(uTime, startedAt + (top - guess) / speed)) - startOffset;
+    radial = length(wrapped(position.xz + guessOffset.xz));
+    bool overTree = uCollect > 0.0 && radial < uTree.z;
+    float surface = overTree ? uTree.x + uTree.y * (1.0 - radial / uTree.z) : uHeight.y;
+    float landAt = top - surface;
+
+    float y = top - min(d, landAt);
+    float toLand = (y - surface) / speed;
+    vec3 drift = windOffsetAt(min(uTime, startedAt + landAt / speed)) - startOffset;
+    vec3 pos = vec3(position.x + drift.x, y, position.z + drift.z);
+    pos.xz = wrapped(pos.xz);
+    // Sway fades out on landing, so a flake settles where it lands and stays put
+    float airborne = clamp(toLand, 0.0, 1.0);
+    pos.x += sin(uTime * 1.3 + aFlake.x * 40.0) * SWAY * airborne;
+    pos.z += cos(uTime * 1.1 + aFlake.x * 25.0) * SWAY * airborne;
+
+    float alpha;
+    if (overTree && d > landAt) {
+      float rested = (d - landAt) / max(restDistance, 0.0001);
+      alpha = uCollect * (1.0 - smoothstep(0.6, 1.0, rested));
+    } else {
+      // Fade out at the ground; flakes that didn't settle stay hidden for the rest of the cycle
+      alpha = 1.0 - smoothstep(fullFall - 1.0, fullFall, d);
+    }
+    vAlpha = alpha * smoothstep(0.0, 1.0, d);
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = uSize * aFlake.z * uScale / -mvPosition.z;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  varying float vAlpha;
+
+  void main() {
+    float alpha = vAlpha * smoothstep(0.5, 0.15, length(gl_PointCoord - 0.5));
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(vec3(1.0), alpha * 0.9);
+  }
+`;
+
+// GPU snowfall around the tree, blown by the wind and settling briefly on the tree
+export const Snowfall: React.FC<SnowfallProps> = ({ count, preset, wind, tree, collect }) => {
+  const height = useThree(state => state.size.height);
+  const dpr = useThree(state => state.viewport.dpr);
+
+  const geometry = useMemo(() => {
+    const columns = new Float32Array(count * 3);
+    const flakes = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      columns[i * 3] = (Math.random() - 0.5) * AREA_WIDTH;
+      columns[i * 3 + 2] = (Math.random() - 0.5) * AREA_WIDTH;
+      flakes[i * 3] = Math.random();
+      flakes[i * 3 + 1] = 0.6 + Math.random() * 0.8;
+      flakes[i * 3 + 2] = 0.5 + Math.random();
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(columns, 3));
+    geometry.setAttribute('aFlake', new THREE.BufferAttribute(flakes, 3));
+    return geometry;
+  }, [count]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTime: { value: 0 },
+      uSpeed: { value: 1 },
+      uSize: { value: 0.1 },
+      uScale: { value: 1 },
+      uHeight: { value: new THREE.Vector2(AREA_TOP, AREA_BOTTOM) },
+      uWindOffset: { value: new THREE.Vector3() },
+      uWindHistory: { value: Array.from({ length: WIND_HISTORY_SIZE }, () => new THREE.Vector3()) },
+      uHistoryTime: { value: 0 },
+      uTree: { value: new THREE.Vector3() },
+      uCollect: { value: 0 },
+      uRest: { value: REST_SECONDS },
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+  }), []);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((state, delta) => {
+    const { uniforms } = material;
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uSpeed.value = preset.fallSpeed;
+    uniforms.uSize.value = preset.flakeSize;
+    // Matches three's size attenuation for points
+    uniforms.uScale.value = (height * dpr) / 2;
+    // Vertical wind is left out: flakes fall at their own pace, the wind only carries them sideways
+    const offset = uniforms.uWindOffset.value as THREE.Vector3;
+    offset.x += wind.current.x * delta;
+    offset.z += wind.current.z * delta;
+    const now = uniforms.uTime.value;
+    if (now - uniforms.uHistoryTime.value >= WIND_HISTORY_STEP) {
+      const history = uniforms.uWindHistory.value as THREE.Vector3[];
+      for (let k = history.length - 1; k > 0; k--) history[k].copy(history[k - 1]);
+      history[0].copy(offset);
+      uniforms.uHistoryTime.value = Math.floor(now / WIND_HISTORY_STEP) * WIND_HISTORY_STEP;
+    }
+    uniforms.uTree.value.set(tree.baseY, tree.height, tree.radius);
+    const collectTarget = collect ? 1 : 0;
+    const step = COLLECT_RATE * delta;
+    uniforms.uCollect.value += THREE.MathUtils.clamp(collectTarget - uniforms.uCollect.value, -step, step);
+  });
+
+  return <points geometry={geometry} material={material} frustumCulled={false} />;
+};
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CalibrationProfile, DEFAULT_PROFILE, isValidProfile } from '../services/calibration';
+import { GestureThresholds } from '../services/gestureRecognizer';
+
+const STORAGE_KEY = 'winter-magic.calibration';
+
+interface StoredCalibration {
+  profiles: CalibrationProfile[];
+  activeId: string;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Profiles that no longer validate are dropped; the built-in default is never stored
+const loadStored = (): StoredCalibration => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<StoredCalibration> | null;
+    const profiles = Array.isArray(stored?.profiles) ? stored.profiles.filter(isValidProfile) : [];
+    const activeId = profiles.some(p => p.id === stored?.activeId) ? stored!.activeId! : DEFAULT_PROFILE.id;
+    return { profiles, activeId };
+  } catch (err) {
+    console.warn("Ignoring saved hand profiles:", err);
+    return { profiles: [], activeId: DEFAULT_PROFILE.id };
+  }
+};
+
+// Saved hand profiles and the one whose thresholds gesture recognition uses, remembered across reloads
+export const useCalibration = () => {
+  const [stored, setStored] = useState<StoredCalibration>(loadStored);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (err) {
+      console.warn("Could not save hand profiles:", err);
+    }
+  }, [stored]);
+
+  const profiles = [DEFAULT_PROFILE, ...stored.profiles];
+  const active = profiles.find(p => p.id === stored.activeId) ?? DEFAULT_PROFILE;
+
+  const selectProfile = useCallback((id: string) => {
+    setStored(prev => ({ ...prev, activeId: id }));
+  }, []);
+
+  // Saving under an existing name recalibrates that profile. The saved profile becomes active.
+  const saveProfile = useCallback((name: string, thresholds: GestureThresholds) => {
+    setStored(prev => {
+      const existing = prev.profiles.find(p => p.name === name);
+      const profile: CalibrationProfile = {
+        id: existing?.id ?? generateId(),
+        name,
+        thresholds,
+        createdAt: new Date().toISOString(),
+      };
+      const profiles = existing
+        ? prev.profiles.map(p => (p.id === existing.id ? profile : p))
+        : [...prev.profiles, profile];
+      return { profiles, activeId: profile.id };
+    });
+  }, []);
+
+  const removeProfile = useCallback((id: string) => {
+    setStored(prev => ({
+      profiles: prev.profiles.filter(p => p.id !== id),
+      activeId: prev.activeId === id ? DEFAULT_PROFILE.id : prev.activeId,
+    }));
+  }, []);
+
+  return { profiles, active, selectProfile, saveProfile, removeProfile };
+};
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BindableGesture, DEFAULT_GESTURE_BINDINGS, GestureBinding, GestureBindings, validateGestureBindings } from '../services/gestureBindings';
+
+const STORAGE_KEY = 'winter-magic.gestureBindings';
+
+const loadStoredBindings = (): GestureBindings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? validateGestureBindings(JSON.parse(stored)) : DEFAULT_GESTURE_BINDINGS;
+  } catch (err) {
+    console.warn("Ignoring saved gesture bindings:", err);
+    return DEFAULT_GESTURE_BINDINGS;
+  }
+};
+
+// Gesture to action bindings, remembered across reloads
+export const useGestureBindings = () => {
+  const [bindings, setBindings] = useState<GestureBindings>(loadStoredBindings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    } catch (err) {
+      console.warn("Could not save gesture bindings:", err);
+    }
+  }, [bindings]);
+
+  const setBinding = useCallback((gesture: BindableGesture, binding: GestureBinding) => {
+    setBindings(prev => ({ ...prev, [gesture]: binding }));
+  }, []);
+
+  const resetBindings = useCallback(() => setBindings(DEFAULT_GESTURE_BINDINGS), []);
+
+  return { bindings, setBinding, resetBindings };
+};
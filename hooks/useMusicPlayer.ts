@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { audioAnalyser } from '../services/audioAnalyser';
+
+export interface Track {
+  id: string;
+  name: string;
+  // Alternatives for the browser to choose from, like <source> elements
+  sources: { src: string; type?: string }[];
+  local: boolean; // Loaded from the user's disk; its object URL is ours to revoke
+}
+
+// Played when the user hasn't added any music of their own (needs a connection)
+const DEFAULT_TRACK: Track = {
+  id: 'default',
+  name: 'We Wish You a Merry Christmas',
+  sources: [
+    { src: 'https://files.freemusicarchive.org/storage-freemusicarchive-org/music/no_curator/United_States_Marine_Band/We_Wish_You_a_Merry_Christmas/United_States_Marine_Band_-_We_Wish_You_a_Merry_Christmas.mp3', type: 'audio/mpeg' },
+    { src: 'https://upload.wikimedia.org/wikipedia/commons/e/e9/We_Wish_You_a_Merry_Christmas.ogg', type: 'audio/ogg' },
+  ],
+  local: false,
+};
+
+const REACTIVE_KEY = 'winter-magic.audioReactive';
+
+// Audio-reactive visuals default to off for people who asked their system for reduced motion
+const loadReactive = () => {
+  try {
+    const stored = localStorage.getItem(REACTIVE_KEY);
+    if (stored !== null) return stored === 'true';
+  } catch {
+    // Storage blocked (e.g. private mode): fall back to the system preference
+  }
+  return !window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Playlist for the page's <audio> element. Local files replace the streamed default track.
+export const useMusicPlayer = (audioRef: React.RefObject<HTMLAudioElement | null>) => {
+  const [tracks, setTracks] = useState<Track[]>([DEFAULT_TRACK]);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [volume, setVolumeState] = useState(1);
+  const [reactive, setReactiveState] = useState(loadReactive);
+  const [error, setError] = useState<string | null>(null);
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+  const isPlayingRef = useRef(isPlaying);
+  isPlayingRef.current = isPlaying;
+
+  const current = tracks[index] ?? null;
+
+  const play = useCallback(async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    // Optimistically set to playing
+    setIsPlaying(true);
+    setError(null);
+    try {
+      await audioAnalyser.attach(audio);
+      await audio.play();
+    } catch (err) {
+      // If the user pauses immediately after playing, an AbortError is thrown.
+      // This is expected behavior during rapid toggling.
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error("Audio playback failed:", err);
+      setIsPlaying(false);
+      setError("This track could not be played.");
+    }
+  }, [audioRef]);
+
+  const pause = useCallback(() => {
+    audioRef.current?.pause();
+    setIsPlaying(false);
+  }, [audioRef]);
+
+  const toggle = useCallback(() => {
+    if (isPlayingRef.current) pause();
+    else play();
+  }, [play, pause]);
+
+  const step = useCallback((delta: number) => {
+    setIndex(i => (tracksRef.current.length ? (i + delta + tracksRef.current.length) % tracksRef.current.length : 0));
+  }, []);
+
+  const next = useCallback(() => step(1), [step]);
+  const previous = useCallback(() => step(-1), [step]);
+
+  // Changing <source> children doesn't reload the element by itself
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !current) return;
+    audio.load();
+    if (isPlayingRef.current) play();
+  }, [audioRef, current, play]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.volume = volume;
+  }, [audioRef, volume]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const handleEnded = () => {
+      if (tracksRef.current.length > 1) next();
+      else play(); // A single track just loops
+    };
+    audio.addEventListener('ended', handleEnded);
+    return () => audio.removeEventListener('ended', handleEnded);
+  }, [audioRef, next, play]);
+
+  useEffect(() => {
+    audioAnalyser.enabled = reactive;
+    try {
+      localStorage.setItem(REACTIVE_KEY, String(reactive));
+    } catch (err) {
+      console.warn("Could not save audio-reactive setting:", err);
+    }
+  }, [reactive]);
+
+  // Free object URLs of local files when unmounting
+  useEffect(() => () => {
+    tracksRef.current.forEach(t => t.local && t.sources.forEach(s => URL.revokeObjectURL(s.src)));
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added: Track[] = files
+      .filter(file => file.type.startsWith('audio/'))
+      .map(file => ({
+        id: generateId(),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        sources: [{ src: URL.createObjectURL(file), type: file.type }],
+        local: true,
+      }));
+    if (added.length === 0) return;
+
+    const hadLocal = tracksRef.current.some(t => t.local);
+    setTracks(prev => [...prev.filter(t => t.local), ...added]);
+    // The first local files take over from the streamed default
+    if (!hadLocal) setIndex(0);
+  }, []);
+
+  const removeTrack = useCallback((id: string) => {
+    const removeAt = tracksRef.current.findIndex(t => t.id === id);
+    const track = tracksRef.current[removeAt];
+    if (!track) return;
+    if (track.local) track.sources.forEach(s => URL.revokeObjectURL(s.src));
+
+    const remaining = tracksRef.current.filter(t => t.id !== id);
+    setTracks(remaining.length ? remaining : [DEFAULT_TRACK]);
+    setIndex(i => (removeAt < i ? i - 1 : Math.min(i, Math.max(0, remaining.length - 1))));
+  }, []);
+
+  const setVolume = useCallback((value: number) => setVolumeState(Math.max(0, Math.min(1, value))), []);
+  const setReactive = useCallback((value: boolean) => setReactiveState(value), []);
+
+  return {
+    tracks, index, current, isPlaying, volume, reactive, error,
+    play, pause, toggle, next, previous, selectTrack: setIndex,
+    addFiles, removeTrack, setVolume, setReactive,
+  };
+};
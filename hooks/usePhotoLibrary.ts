@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PhotoData } from '../types';
+import { readExif } from '../services/exif';
+import { createPhotoData, createPhotoTexture, photoStore, PhotoQuotaExceededError, releasePhotoData, StoredPhoto } from '../services/photoStore';
+import { imageDecoder } from '../services/imageDecoder';
+import { DEFAULT_TRANSITION, listTransitions } from '../services/transitions';
+
+export type PhotoPatch = Partial<Pick<PhotoData, 'caption' | 'date' | 'transitionType'>>;
+
+// Helper for ID since we can't easily import uuid in all envs without install
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Photos shown on the tree, persisted to IndexedDB so they survive a reload
+export const usePhotoLibrary = () => {
+  const [photos, setPhotos] = useState<PhotoData[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const photosRef = useRef<PhotoData[]>([]);
+  photosRef.current = photos;
+  // Photos removed or replaced since they were shown, so a decode finishing late frees its texture
+  const discardedRef = useRef(new Set<string>());
+
+  // Decodes off the main thread; cards show a placeholder until their texture arrives
+  const showRecords = useCallback((records: StoredPhoto[]): PhotoData[] => {
+    const created = records.map(createPhotoData);
+    records.forEach(({ id, blob }) => {
+      imageDecoder.decode(blob)
+        .then(image => {
+          // Removed while it was decoding
+          if (discardedRef.current.has(id)) {
+            image.bitmap.close();
+            return;
+          }
+          const texture = createPhotoTexture(image);
+          const aspect = image.width / image.height;
+          setPhotos(prev => prev.map(p => (p.id === id ? { ...p, texture, aspect, status: 'ready' } : p)));
+        })
+        .catch(err => {
+          if (discardedRef.current.has(id)) return;
+          console.error(`Could not decode photo ${id}:`, err);
+          setPhotos(prev => prev.map(p => (p.id === id ? { ...p, status: 'error' } : p)));
+        });
+    });
+    return created;
+  }, []);
+
+  // Restore saved photos on startup, and free every URL/texture when unmounting
+  useEffect(() => {
+    let cancelled = false;
+
+    photoStore.loadAll()
+      .then(records => {
+        if (cancelled) return;
+        const restored = showRecords(records);
+        setPhotos(prev => [...restored, ...prev]);
+      })
+      .catch(err => {
+        console.error("Could not restore saved photos:", err);
+        if (!cancelled) setError("Saved photos could not be restored.");
+      });
+
+    return () => {
+      cancelled = true;
+      photosRef.current.forEach(photo => {
+        discardedRef.current.add(photo.id);
+        releasePhotoData(photo);
+      });
+    };
+  }, [showRecords]);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    const nextOrder = photosRef.current.reduce((max, p) => Math.max(max, p.order + 1), 0);
+    const transitions = listTransitions();
+
+    const records: StoredPhoto[] = await Promise.all(files.map(async (file, index) => ({
+      id: generateId(),
+      blob: file,
+      transitionType: transitions[index % transitions.length]?.id ?? DEFAULT_TRANSITION, // Cycle through types
+      order: nextOrder + index,
+      caption: '',
+      date: (await readExif(file)).date,
+    })));
+
+    try {
+      await photoStore.add(records);
+    } catch (err) {
+      if (err instanceof PhotoQuotaExceededError) {
+        setError(err.message);
+        return;
+      }
+      // Storage being unavailable (e.g. private browsing) shouldn't stop the photos from showing
+      console.error("Could not save photos:", err);
+      setError("Photos are shown but could not be saved, so they will be gone after a reload.");
+    }
+
+    setPhotos(prev => [...prev, ...showRecords(records)]);
+  }, [showRecords]);
+
+  const removePhoto = useCallback(async (id: string) => {
+    const photo = photosRef.current.find(p => p.id === id);
+    if (!photo) return;
+    discardedRef.current.add(id);
+    setPhotos(prev => prev.filter(p => p.id !== id));
+    releasePhotoData(photo);
+    try {
+      await photoStore.remove(id);
+    } catch (err) {
+      console.error("Could not delete saved photo:", err);
+    }
+  }, []);
+
+  const updatePhoto = useCallback((id: string, patch: PhotoPatch) => {
+    setPhotos(prev => prev.map(p => (p.id === id ? { ...p, ...patch } : p)));
+    photoStore.update([{ id, ...patch }]).catch(err => console.error("Could not save photo details:", err));
+  }, []);
+
+  // Move a photo to a new position in the list and renumber everyone's order
+  const movePhoto = useCallback((fromIndex: number, toIndex: number) => {
+    const next = [...photosRef.current];
+    const [moved] = next.splice(fromIndex, 1);
+    if (!moved) return;
+    next.splice(toIndex, 0, moved);
+    const reordered = next.map((p, order) => ({ ...p, order }));
+
+    setPhotos(reordered);
+    photoStore.update(reordered.map(({ id, order }) => ({ id, order })))
+      .catch(err => console.error("Could not save photo order:", err));
+  }, []);
+
+  // Replaces the whole library, e.g. from an imported scene. Resolves false if nothing changed.
+  const replaceAll = useCallback(async (records: StoredPhoto[]): Promise<boolean> => {
+    try {
+      await photoStore.replaceAll(records);
+    } catch (err) {
+      if (err instanceof PhotoQuotaExceededError) {
+        setError(err.message);
+        return false;
+      }
+      console.error("Could not save imported photos:", err);
+      setError("Photos are shown but could not be saved, so they will be gone after a reload.");
+    }
+
+    photosRef.current.forEach(photo => {
+      discardedRef.current.add(photo.id);
+      releasePhotoData(photo);
+    });
+    setPhotos(showRecords(records));
+    return true;
+  }, [showRecords]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { photos, error, dismissError, addFiles, removePhoto, updatePhoto, movePhoto, replaceAll };
+};
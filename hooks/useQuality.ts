@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AdaptiveQuality, QUALITY_TIERS, QualityMode } from '../services/quality';
+import { performanceMonitor } from '../services/performanceMonitor';
+
+const STORAGE_KEY = 'winter-magic.quality';
+const EVALUATE_EVERY_MS = 1000;
+
+const loadStoredMode = (): QualityMode => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && QUALITY_TIERS.some(t => t.id === stored) ? stored : 'auto';
+  } catch {
+    return 'auto';
+  }
+};
+
+// Active quality tier: picked from the measured frame rate in auto mode, or pinned by the user
+export const useQuality = () => {
+  const [mode, setModeState] = useState<QualityMode>(loadStoredMode);
+  const controller = useMemo(() => new AdaptiveQuality(), []);
+  const [autoIndex, setAutoIndex] = useState(controller.tierIndex);
+
+  useEffect(() => {
+    if (mode !== 'auto') return;
+    const timer = setInterval(() => {
+      const now = performance.now();
+      if (controller.evaluate(performanceMonitor.stats(now), performanceMonitor.sampleCount, now)) {
+        setAutoIndex(controller.tierIndex);
+      }
+    }, EVALUATE_EVERY_MS);
+    return () => clearInterval(timer);
+  }, [mode, controller]);
+
+  const tier = mode === 'auto'
+    ? QUALITY_TIERS[autoIndex]
+    : QUALITY_TIERS.find(t => t.id === mode) ?? QUALITY_TIERS[0];
+
+  // Judge each tier by its own frames only
+  useEffect(() => {
+    performanceMonitor.resetFrames();
+  }, [tier]);
+
+  const setMode = useCallback((next: QualityMode) => {
+    setModeState(next);
+    try {
+      if (next === 'auto') localStorage.removeItem(STORAGE_KEY);
+      else localStorage.setItem(STORAGE_KEY, next);
+    } catch (err) {
+      console.warn("Could not save quality setting:", err);
+    }
+  }, []);
+
+  return { tier, mode, setMode };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+import { PhotoData } from '../types';
+import { SceneConfig } from '../services/sceneConfig';
+import { StoredPhoto } from '../services/photoStore';
+import { BUNDLE_EXTENSION, exportSceneBundle, importSceneBundle, SceneBundleError } from '../services/sceneBundle';
+import { captureFilename, downloadBlob } from '../services/sceneCapture';
+
+interface SceneBundleTarget {
+  config: SceneConfig;
+  photos: PhotoData[];
+  setConfig: (config: SceneConfig) => void;
+  replacePhotos: (photos: StoredPhoto[]) => Promise<boolean>;
+}
+
+// Saving and opening .wintermagic archives of the whole scene
+export const useSceneBundle = ({ config, photos, setConfig, replacePhotos }: SceneBundleTarget) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportBundle = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      downloadBlob(await exportSceneBundle(config, photos), captureFilename(BUNDLE_EXTENSION.slice(1)));
+    } catch (err) {
+      console.error("Scene export failed:", err);
+      setError("The scene could not be exported.");
+    } finally {
+      setBusy(false);
+    }
+  }, [config, photos]);
+
+  const importBundle = useCallback(async (file: File) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const bundle = await importSceneBundle(file);
+      // Photos first: if they don't fit, leave the current scene as it is
+      if (await replacePhotos(bundle.photos)) setConfig(bundle.config);
+    } catch (err) {
+      if (err instanceof SceneBundleError) {
+        setError(err.message);
+      } else {
+        console.error("Scene import failed:", err);
+        setError("The scene could not be imported.");
+      }
+    } finally {
+      setBusy(false);
+    }
+  }, [replacePhotos, setConfig]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { busy, error, dismissError, exportBundle, importBundle };
+};
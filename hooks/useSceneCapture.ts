@@ -0,0 +1,77 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  captureFilename, CaptureOptions, CaptureUnsupportedError, DEFAULT_CAPTURE_OPTIONS,
+  downloadBlob, sceneRecorder, takeSnapshot,
+} from '../services/sceneCapture';
+
+const FLASH_MS = 250;
+
+// Snapshot/recording state for the scene canvas. The callbacks are stable so they can be
+// fired from gesture handlers.
+export const useSceneCapture = (
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  webcamRef: React.RefObject<HTMLVideoElement | null>,
+) => {
+  const [options, setOptions] = useState<CaptureOptions>(DEFAULT_CAPTURE_OPTIONS);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [flash, setFlash] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const sources = useCallback(() => {
+    const canvas = canvasRef.current;
+    return canvas ? { canvas, webcam: webcamRef.current } : null;
+  }, [canvasRef, webcamRef]);
+
+  const snapshot = useCallback(async () => {
+    const current = sources();
+    if (!current) return;
+    try {
+      const blob = await takeSnapshot(current, optionsRef.current);
+      downloadBlob(blob, captureFilename('png'));
+      setFlash(true);
+      setTimeout(() => setFlash(false), FLASH_MS);
+    } catch (err) {
+      console.error("Snapshot failed:", err);
+      setError("The snapshot could not be saved.");
+    }
+  }, [sources]);
+
+  const toggleRecording = useCallback(async () => {
+    if (sceneRecorder.isRecording) {
+      setIsRecording(false);
+      setRecordingStartedAt(null);
+      downloadBlob(await sceneRecorder.stop(), captureFilename('webm'));
+      return;
+    }
+
+    const current = sources();
+    if (!current) return;
+    try {
+      sceneRecorder.start(current, optionsRef.current);
+      setIsRecording(true);
+      setRecordingStartedAt(Date.now());
+      setError(null);
+    } catch (err) {
+      if (err instanceof CaptureUnsupportedError) {
+        setError(err.message);
+        return;
+      }
+      console.error("Recording failed to start:", err);
+      setError("The recording could not be started.");
+    }
+  }, [sources]);
+
+  // Don't lose a recording in progress when the app goes away
+  useEffect(() => () => {
+    if (sceneRecorder.isRecording) {
+      sceneRecorder.stop().then(blob => downloadBlob(blob, captureFilename('webm')));
+    }
+  }, []);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { options, setOptions, isRecording, recordingStartedAt, flash, error, dismissError, snapshot, toggleRecording };
+};
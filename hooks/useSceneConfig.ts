@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_SCENE_CONFIG, exportSceneConfig, keepUnchanged, parseSceneConfig, SceneConfig, SceneConfigError, validateSceneConfig } from '../services/sceneConfig';
+
+const STORAGE_KEY = 'winter-magic.sceneConfig';
+
+// A stored config that no longer validates (e.g. after a schema change) falls back to the default
+const loadStoredConfig = (): SceneConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? validateSceneConfig(JSON.parse(stored)) : DEFAULT_SCENE_CONFIG;
+  } catch (err) {
+    console.warn("Ignoring saved scene config:", err);
+    return DEFAULT_SCENE_CONFIG;
+  }
+};
+
+// The active scene config, remembered across reloads
+export const useSceneConfig = () => {
+  const [config, setStoredConfig] = useState<SceneConfig>(loadStoredConfig);
+  const [error, setError] = useState<string | null>(null);
+
+  // Parts the new config doesn't change stay the same objects, so e.g. a light edit doesn't re-roll the particles
+  const setConfig = useCallback((next: SceneConfig) => {
+    setStoredConfig(prev => keepUnchanged(prev, next));
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    } catch (err) {
+      console.warn("Could not save scene config:", err);
+    }
+  }, [config]);
+
+  const importFile = useCallback(async (file: File) => {
+    try {
+      setConfig(parseSceneConfig(await file.text()));
+      setError(null);
+    } catch (err) {
+      if (err instanceof SceneConfigError) {
+        setError(err.message);
+        return;
+      }
+      throw err;
+    }
+  }, [setConfig]);
+
+  const exportConfig = useCallback(() => exportSceneConfig(config), [config]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { config, setConfig, error, dismissError, importFile, exportConfig };
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_SNOW_PRESET, getSnowPreset, SNOW_PRESETS } from '../services/snowfall';
+
+const STORAGE_KEY = 'winter-magic.snowfall';
+
+interface SnowSettings {
+  enabled: boolean;
+  presetId: string;
+}
+
+const loadStoredSettings = (): SnowSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<SnowSettings> | null;
+    return {
+      enabled: stored?.enabled === true,
+      presetId: SNOW_PRESETS.some(p => p.id === stored?.presetId) ? stored!.presetId! : DEFAULT_SNOW_PRESET,
+    };
+  } catch {
+    return { enabled: false, presetId: DEFAULT_SNOW_PRESET };
+  }
+};
+
+// Whether it snows and how hard, remembered across reloads
+export const useSnowfall = () => {
+  const [settings, setSettings] = useState<SnowSettings>(loadStoredSettings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+      console.warn("Could not save snowfall setting:", err);
+    }
+  }, [settings]);
+
+  const toggle = useCallback(() => setSettings(prev => ({ ...prev, enabled: !prev.enabled })), []);
+  const setPreset = useCallback((presetId: string) => setSettings(prev => ({ ...prev, presetId })), []);
+
+  return { enabled: settings.enabled, preset: getSnowPreset(settings.presetId), toggle, setPreset };
+};
@@ -0,0 +1,40 @@
+// Downloads the MediaPipe hand landmarker model into public/models so the app can run offline.
+// Skips the download when the file is already there, or when VITE_HAND_MODEL_PATH points elsewhere.
+// With --required (used by the build) a failed download fails the build, since the result would
+// have no hand tracking; otherwise (dev) it only warns.
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { loadEnv } from 'vite';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const target = path.join(root, 'public', 'models', 'hand_landmarker.task');
+const required = process.argv.includes('--required');
+
+if (existsSync(target)) {
+  process.exit(0);
+}
+
+const env = loadEnv(required ? 'production' : 'development', root, 'VITE_');
+if (env.VITE_HAND_MODEL_PATH) {
+  process.exit(0);
+}
+
+try {
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  mkdirSync(path.dirname(target), { recursive: true });
+  writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`Saved hand landmarker model to ${path.relative(root, target)}`);
+} catch (err) {
+  const lines = [
+    `Could not download the hand landmarker model (${err.message}).`,
+    required ? 'The build would have no hand tracking, so it stops here.' : 'Hand tracking will not work until the model is there.',
+    `Copy hand_landmarker.task into ${path.relative(root, target)} or set VITE_HAND_MODEL_PATH.`,
+  ];
+  const width = Math.max(...lines.map(line => line.length));
+  const rule = '!'.repeat(width + 4);
+  console.error(['', rule, ...lines.map(line => `! ${line.padEnd(width)} !`), rule, ''].join('\n'));
+  if (required) process.exit(1);
+}
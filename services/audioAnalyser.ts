@@ -0,0 +1,111 @@
+// Turns whatever the music <audio> element is playing into a few smoothed 0-1 levels
+// that the scene can map onto visuals.
+
+export type AudioBand = 'bass' | 'mid' | 'treble' | 'beat';
+
+export type AudioLevels = Record<AudioBand, number>;
+
+const SILENT: AudioLevels = { bass: 0, mid: 0, treble: 0, beat: 0 };
+
+// Frequency ranges in Hz
+const BANDS: Record<Exclude<AudioBand, 'beat'>, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+};
+
+// Levels rise quickly and fall slowly so visuals follow the music without flickering
+const ATTACK = 0.6;
+const RELEASE = 0.12;
+
+// A beat is a bass level well above its recent average
+const BEAT_RATIO = 1.35;
+const BEAT_MIN_LEVEL = 0.3;
+const BEAT_REFRACTORY_S = 0.25;
+const BEAT_DECAY_S = 0.2;
+const AVERAGE_WINDOW_S = 1;
+
+export class AudioAnalyser {
+  enabled = true;
+
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private element: HTMLMediaElement | null = null;
+  private bins: Uint8Array<ArrayBuffer> | null = null;
+  private levels: AudioLevels = { ...SILENT };
+  private lastTime: number | null = null;
+  private bassAverage = 0;
+  private lastBeat = -Infinity;
+
+  // Routes the element through an analyser. A media element can only be captured once,
+  // so this must be called for the same element every time; it also needs a user gesture
+  // before the AudioContext is allowed to start.
+  async attach(element: HTMLMediaElement) {
+    if (this.element && this.element !== element) {
+      throw new Error("AudioAnalyser is already attached to another element");
+    }
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.analyser.smoothingTimeConstant = 0.6;
+      this.bins = new Uint8Array(this.analyser.frequencyBinCount);
+      this.context.createMediaElementSource(element).connect(this.analyser);
+      this.analyser.connect(this.context.destination);
+      this.element = element;
+    }
+    if (this.context.state === 'suspended') await this.context.resume();
+  }
+
+  // The audio graph, for anything else that wants to tap the music (e.g. a recorder)
+  get audioContext(): AudioContext | null {
+    return this.context;
+  }
+
+  get output(): AudioNode | null {
+    return this.analyser;
+  }
+
+  // Levels for the frame at `time` (seconds). Several components read this each frame,
+  // so the analysis only runs once per distinct time value.
+  read(time: number): AudioLevels {
+    if (time === this.lastTime) return this.levels;
+    const delta = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    if (!this.enabled || !this.analyser || !this.bins || !this.element || this.element.paused) {
+      this.levels = { ...SILENT };
+      return this.levels;
+    }
+
+    this.analyser.getByteFrequencyData(this.bins);
+    const hzPerBin = this.context!.sampleRate / 2 / this.bins.length;
+    const band = ([low, high]: [number, number]) => {
+      const from = Math.max(0, Math.floor(low / hzPerBin));
+      const to = Math.min(this.bins!.length, Math.ceil(high / hzPerBin));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += this.bins![i];
+      return to > from ? sum / (to - from) / 255 : 0;
+    };
+    const smooth = (previous: number, next: number) => previous + (next - previous) * (next > previous ? ATTACK : RELEASE);
+
+    const bass = band(BANDS.bass);
+    const mid = band(BANDS.mid);
+    const treble = band(BANDS.treble);
+
+    this.bassAverage += (bass - this.bassAverage) * Math.min(1, delta / AVERAGE_WINDOW_S);
+    if (bass > BEAT_MIN_LEVEL && bass > this.bassAverage * BEAT_RATIO && time - this.lastBeat > BEAT_REFRACTORY_S) {
+      this.lastBeat = time;
+    }
+
+    this.levels = {
+      bass: smooth(this.levels.bass, bass),
+      mid: smooth(this.levels.mid, mid),
+      treble: smooth(this.levels.treble, treble),
+      beat: Math.exp(-(time - this.lastBeat) / BEAT_DECAY_S),
+    };
+    return this.levels;
+  }
+}
+
+export const audioAnalyser = new AudioAnalyser();
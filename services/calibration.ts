@@ -0,0 +1,97 @@
+// Per-user gesture calibration: turns what a user's open hand, fist and pinch actually look like
+// into GestureThresholds, and describes the saved profiles.
+import { DEFAULT_GESTURE_OPTIONS, GestureThresholds } from './gestureRecognizer';
+
+export type CalibrationStep = 'open' | 'fist' | 'pinch';
+
+export const CALIBRATION_STEPS: { step: CalibrationStep; label: string; instruction: string }[] = [
+  { step: 'open', label: 'Open hand', instruction: 'Show an open hand with the fingers spread' },
+  { step: 'fist', label: 'Fist', instruction: 'Close your hand into a fist' },
+  { step: 'pinch', label: 'Pinch', instruction: 'Touch the tips of your thumb and index finger together' },
+];
+
+// One frame of a held pose, both in palm lengths
+export interface CalibrationSample {
+  openness: number; // See HandData.openness
+  pinch: number; // Thumb tip to index tip
+}
+
+export type CalibrationSamples = Record<CalibrationStep, CalibrationSample[]>;
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  thresholds: GestureThresholds;
+  createdAt: string; // ISO date
+}
+
+export const DEFAULT_PROFILE: CalibrationProfile = {
+  id: 'default',
+  name: 'Default',
+  thresholds: DEFAULT_GESTURE_OPTIONS.thresholds,
+  createdAt: new Date(0).toISOString(),
+};
+
+// Poses too close together to tell apart reliably, in palm lengths
+const MIN_OPEN_RANGE = 0.3;
+const MIN_PINCH_RANGE = 0.1;
+// Where between the two poses each threshold sits (0 = first pose, 1 = second)
+const OPEN_ENTER = 0.6;
+const OPEN_EXIT = 0.4;
+const PINCH_ENTER = 0.3;
+const PINCH_EXIT = 0.5;
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+// The median shrugs off the odd misdetected frame
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+export const thresholdsFromSamples = (samples: CalibrationSamples): GestureThresholds => {
+  const missing = CALIBRATION_STEPS.find(({ step }) => samples[step].length === 0);
+  if (missing) throw new CalibrationError(`No hand was seen during "${missing.label}".`);
+
+  const open = median(samples.open.map(s => s.openness));
+  const fist = median(samples.fist.map(s => s.openness));
+  if (open - fist < MIN_OPEN_RANGE) {
+    throw new CalibrationError("The open hand and the fist looked too alike. Keep your whole hand in view and try again.");
+  }
+
+  // A fist tucks the thumb close to the index finger, so "not pinching" is whichever pose had them closer
+  const pinched = median(samples.pinch.map(s => s.pinch));
+  const apart = Math.min(median(samples.open.map(s => s.pinch)), median(samples.fist.map(s => s.pinch)));
+  if (apart - pinched < MIN_PINCH_RANGE) {
+    throw new CalibrationError("The pinch couldn't be told apart from the other poses. Try again with your fingertips touching.");
+  }
+
+  return {
+    openEnter: lerp(fist, open, OPEN_ENTER),
+    openExit: lerp(fist, open, OPEN_EXIT),
+    pinchEnter: lerp(pinched, apart, PINCH_ENTER),
+    pinchExit: lerp(pinched, apart, PINCH_EXIT),
+  };
+};
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Sound thresholds: positive, with each exit on the far side of its enter
+export const isValidThresholds = (value: unknown): value is GestureThresholds => {
+  const t = value as Partial<GestureThresholds> | null;
+  return !!t && isPositive(t.openEnter) && isPositive(t.openExit) && isPositive(t.pinchEnter) && isPositive(t.pinchExit)
+    && t.openExit <= t.openEnter && t.pinchEnter <= t.pinchExit;
+};
+
+export const isValidProfile = (value: unknown): value is CalibrationProfile => {
+  const p = value as Partial<CalibrationProfile> | null;
+  return !!p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.createdAt === 'string' && isValidThresholds(p.thresholds);
+};
@@ -0,0 +1,89 @@
+// Minimal EXIF reader for JPEG files: only pulls out the few tags the app uses.
+
+export interface ExifInfo {
+  date?: string; // Capture date as YYYY-MM-DD
+}
+
+// EXIF lives in the APP1 segment near the start of the file
+const HEADER_BYTES = 128 * 1024;
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number; entryOffset: number }>;
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): IfdEntries => {
+  const entries: IfdEntries = new Map();
+  const start = tiffStart + ifdOffset;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entryOffset = start + 2 + i * 12;
+    entries.set(view.getUint16(entryOffset, little), {
+      type: view.getUint16(entryOffset + 2, little),
+      count: view.getUint32(entryOffset + 4, little),
+      valueOffset: view.getUint32(entryOffset + 8, little),
+      entryOffset,
+    });
+  }
+  return entries;
+};
+
+const readAscii = (view: DataView, tiffStart: number, entry: IfdEntries extends Map<number, infer E> ? E : never) => {
+  // Strings of 4 bytes or less are stored inline in the entry
+  const start = entry.count > 4 ? tiffStart + entry.valueOffset : entry.entryOffset + 8;
+  let text = '';
+  for (let i = 0; i < entry.count - 1; i++) {
+    text += String.fromCharCode(view.getUint8(start + i));
+  }
+  return text;
+};
+
+// "2023:12:24 18:30:00" -> "2023-12-24"
+const toIsoDate = (exifDate: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})/.exec(exifDate);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+const parseTiff = (view: DataView, tiffStart: number): ExifInfo => {
+  const little = view.getUint16(tiffStart) === 0x4949; // "II" = Intel byte order
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+  let date: string | undefined;
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exifIfd = readIfd(view, tiffStart, exifPointer.valueOffset, little);
+    const original = exifIfd.get(TAG_DATE_TIME_ORIGINAL) ?? exifIfd.get(TAG_DATE_TIME_DIGITIZED);
+    if (original) date = toIsoDate(readAscii(view, tiffStart, original));
+  }
+  if (!date) {
+    const modified = ifd0.get(TAG_DATE_TIME);
+    if (modified) date = toIsoDate(readAscii(view, tiffStart, modified));
+  }
+
+  return { date };
+};
+
+export const readExif = async (file: Blob): Promise<ExifInfo> => {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (view.getUint16(0) !== 0xFFD8) return {}; // Not a JPEG
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00) break;
+      const size = view.getUint16(offset + 2);
+      // APP1 segment starting with "Exif\0\0"
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) {
+        return parseTiff(view, offset + 10);
+      }
+      offset += 2 + size;
+    }
+  } catch (err) {
+    // Truncated or malformed metadata just means no EXIF info
+    console.warn("Could not read EXIF data:", err);
+  }
+  return {};
+};
@@ -0,0 +1,196 @@
+// Formations: named generators that give every particle a target position.
+// Built-ins are registered below; third parties can add their own with registerFormation().
+
+export interface Formation {
+  id: string;
+  label: string;
+  // Target position for each of `count` particles, as flat xyz triples (length = count * 3)
+  generate: (count: number, context: FormationContext) => Float32Array;
+  spin?: number; // Radians per second the formation turns around the Y axis
+  cyclable?: boolean; // Include in the gesture/UI cycle (default true)
+}
+
+// Scene dimensions from the active scene config that generators may size themselves to
+export interface FormationContext {
+  treeHeight: number;
+  treeRadius: number;
+}
+
+const registry = new Map<string, Formation>();
+const listeners = new Set<() => void>();
+let snapshot: Formation[] = [];
+
+const notify = () => {
+  snapshot = Array.from(registry.values());
+  listeners.forEach(listener => listener());
+};
+
+// Adds (or replaces) a formation. Returns a function that unregisters it again.
+export const registerFormation = (formation: Formation): (() => void) => {
+  registry.set(formation.id, formation);
+  notify();
+  return () => {
+    if (registry.get(formation.id) === formation) {
+      registry.delete(formation.id);
+      notify();
+    }
+  };
+};
+
+export const getFormation = (id: string): Formation | undefined => registry.get(id);
+
+export const listFormations = (): Formation[] => snapshot;
+
+// For useSyncExternalStore
+export const subscribeFormations = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const nextFormationId = (currentId: string, step = 1): string => {
+  const cycle = snapshot.filter(f => f.cyclable !== false);
+  if (cycle.length === 0) return currentId;
+  const index = cycle.findIndex(f => f.id === currentId);
+  return cycle[(index + step + cycle.length) % cycle.length].id;
+};
+
+// Helper for generators that produce one point at a time
+export const fromPoints = (count: number, point: (i: number, t: number) => [number, number, number]) => {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    positions.set(point(i, count > 1 ? i / count : 0), i * 3);
+  }
+  return positions;
+};
+
+const jitter = (amount: number) => (Math.random() - 0.5) * amount;
+
+// Random point inside a triangle
+const sampleTriangle = (
+  a: [number, number], b: [number, number], c: [number, number]
+): [number, number] => {
+  let u = Math.random();
+  let v = Math.random();
+  if (u + v > 1) {
+    u = 1 - u;
+    v = 1 - v;
+  }
+  return [a[0] + u * (b[0] - a[0]) + v * (c[0] - a[0]), a[1] + u * (b[1] - a[1]) + v * (c[1] - a[1])];
+};
+
+// Point on a set of line segments, spread evenly by length
+const sampleSegments = (segments: [number, number, number, number][], t: number): [number, number] => {
+  const lengths = segments.map(([x1, y1, x2, y2]) => Math.hypot(x2 - x1, y2 - y1));
+  const total = lengths.reduce((a, b) => a + b, 0);
+  let distance = t * total;
+  for (let s = 0; s < segments.length; s++) {
+    if (distance <= lengths[s] || s === segments.length - 1) {
+      const f = lengths[s] > 0 ? Math.min(1, distance / lengths[s]) : 0;
+      const [x1, y1, x2, y2] = segments[s];
+      return [x1 + (x2 - x1) * f, y1 + (y2 - y1) * f];
+    }
+    distance -= lengths[s];
+  }
+  return [0, 0];
+};
+
+const spiralTree: Formation = {
+  id: 'tree',
+  label: 'Spiral Tree',
+  generate: (count, { treeHeight, treeRadius }) => fromPoints(count, (_, t) => {
+    const angle = t * Math.PI * 20; // Multiple loops
+    const y = (t * treeHeight) - (treeHeight / 2); // -Height/2 to Height/2
+    const r = treeRadius * (1 - t); // Radius shrinks as we go up
+    return [Math.cos(angle) * r, y, Math.sin(angle) * r];
+  }),
+};
+
+const explosion: Formation = {
+  id: 'explosion',
+  label: 'Explosion',
+  spin: 0.5,
+  cyclable: false, // Reached with an open hand rather than by cycling
+  generate: (count) => fromPoints(count, () => {
+    const theta = Math.random() * Math.PI * 2;
+    const phi = Math.acos((Math.random() * 2) - 1);
+    const r = 5 + Math.random() * 5; // Radius of explosion
+    return [r * Math.sin(phi) * Math.cos(theta), r * Math.sin(phi) * Math.sin(theta), r * Math.cos(phi)];
+  }),
+};
+
+const sphere: Formation = {
+  id: 'sphere',
+  label: 'Sphere',
+  spin: 0.2,
+  // Fibonacci lattice for an even spread
+  generate: (count) => fromPoints(count, (i) => {
+    const y = count > 1 ? 1 - (i / (count - 1)) * 2 : 0;
+    const radius = Math.sqrt(1 - y * y);
+    const theta = i * Math.PI * (3 - Math.sqrt(5));
+    const r = 6 + jitter(0.3);
+    return [Math.cos(theta) * radius * r, y * r, Math.sin(theta) * radius * r];
+  }),
+};
+
+const star: Formation = {
+  id: 'star',
+  label: 'Star',
+  generate: (count) => {
+    const points = 5;
+    const vertices: [number, number][] = [];
+    for (let k = 0; k < points * 2; k++) {
+      const r = k % 2 === 0 ? 7 : 3;
+      const angle = Math.PI / 2 + (k * Math.PI) / points;
+      vertices.push([Math.cos(angle) * r, Math.sin(angle) * r]);
+    }
+    // Fill the star as a fan of equal-area triangles around the centre
+    return fromPoints(count, (i) => {
+      const k = i % vertices.length;
+      const [x, y] = sampleTriangle([0, 0], vertices[k], vertices[(k + 1) % vertices.length]);
+      return [x, y, jitter(1)];
+    });
+  },
+};
+
+const snowflake: Formation = {
+  id: 'snowflake',
+  label: 'Snowflake',
+  generate: (count) => {
+    const segments: [number, number, number, number][] = [];
+    for (let arm = 0; arm < 6; arm++) {
+      const angle = (arm * Math.PI) / 3 + Math.PI / 2;
+      const dir = (r: number, a = angle): [number, number] => [Math.cos(a) * r, Math.sin(a) * r];
+      segments.push([0, 0, ...dir(7)]);
+      // Two pairs of side branches per arm
+      [[3, 2.2], [5, 1.4]].forEach(([at, length]) => {
+        const [bx, by] = dir(at);
+        [-1, 1].forEach(side => {
+          const [ex, ey] = dir(length, angle + side * Math.PI / 4);
+          segments.push([bx, by, bx + ex, by + ey]);
+        });
+      });
+    }
+    return fromPoints(count, (_, t) => {
+      const [x, y] = sampleSegments(segments, t);
+      return [x + jitter(0.25), y + jitter(0.25), jitter(0.6)];
+    });
+  },
+};
+
+const heart: Formation = {
+  id: 'heart',
+  label: 'Heart',
+  generate: (count) => fromPoints(count, (_, t) => {
+    const a = t * Math.PI * 2 * 7; // Several passes around the outline
+    // Classic heart curve, pulled towards the centre to fill it in
+    const fill = Math.sqrt(Math.random());
+    const x = 16 * Math.pow(Math.sin(a), 3);
+    const y = 13 * Math.cos(a) - 5 * Math.cos(2 * a) - 2 * Math.cos(3 * a) - Math.cos(4 * a);
+    const scale = 0.4 * fill;
+    return [x * scale, y * scale + 1, jitter(1.2)];
+  }),
+};
+
+[spiralTree, star, snowflake, heart, sphere, explosion].forEach(registerFormation);
@@ -0,0 +1,88 @@
+// Which app action each of the extra hand poses triggers. Fist, open hand and pinch drive the
+// scene directly (form, explode, grab) and aren't rebindable.
+import { GestureEvent, GestureName } from '../types';
+
+export type GestureActionId = 'nextFormation' | 'nextPhoto' | 'toggleMusic' | 'toggleFullscreen' | 'snapshot' | 'toggleSnowfall';
+
+export const GESTURE_ACTIONS: { id: GestureActionId; label: string }[] = [
+  { id: 'nextFormation', label: 'Next shape' },
+  { id: 'nextPhoto', label: 'Next memory' },
+  { id: 'toggleMusic', label: 'Play / pause music' },
+  { id: 'toggleFullscreen', label: 'Toggle fullscreen' },
+  { id: 'snapshot', label: 'Snapshot' },
+  { id: 'toggleSnowfall', label: 'Start / stop snowfall' },
+];
+
+export const GESTURES: Record<GestureName, { label: string; emoji: string }> = {
+  fist: { label: 'Fist', emoji: '✊' },
+  open: { label: 'Open', emoji: '🖐' },
+  pinch: { label: 'Pinch', emoji: '👌' },
+  thumbsUp: { label: 'Thumbs Up', emoji: '👍' },
+  point: { label: 'Point', emoji: '☝️' },
+  victory: { label: 'Victory', emoji: '✌️' },
+  rockOn: { label: 'Rock On', emoji: '🤘' },
+  wave: { label: 'Wave', emoji: '👋' },
+};
+
+export const BINDABLE_GESTURES = ['thumbsUp', 'point', 'victory', 'rockOn', 'wave'] as const;
+export type BindableGesture = typeof BINDABLE_GESTURES[number];
+
+export interface GestureBinding {
+  action: GestureActionId | null;
+  holdMs: number; // How long the gesture must be held before the action fires; 0 = at once
+}
+
+export type GestureBindings = Record<BindableGesture, GestureBinding>;
+
+// Offered in the settings; long enough holds keep passing poses from firing actions by accident
+export const HOLD_OPTIONS_MS = [0, 500, 1000, 2000];
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  thumbsUp: { action: 'snapshot', holdMs: 1000 },
+  point: { action: null, holdMs: 1000 }, // Pointing aims at photos, so it does nothing else by default
+  victory: { action: 'nextFormation', holdMs: 500 },
+  rockOn: { action: 'toggleMusic', holdMs: 500 },
+  wave: { action: 'toggleSnowfall', holdMs: 0 },
+};
+
+const isAction = (value: unknown): value is GestureActionId => GESTURE_ACTIONS.some(a => a.id === value);
+
+// Stored bindings from an older version may miss gestures or name actions that are gone;
+// those fall back to the defaults
+export const validateGestureBindings = (value: unknown): GestureBindings => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<BindableGesture, Partial<GestureBinding>>>;
+  const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+  BINDABLE_GESTURES.forEach(gesture => {
+    const binding = stored[gesture];
+    if (!binding) return;
+    const holdMs = typeof binding.holdMs === 'number' && binding.holdMs >= 0 ? binding.holdMs : DEFAULT_GESTURE_BINDINGS[gesture].holdMs;
+    if (binding.action === null || isAction(binding.action)) bindings[gesture] = { action: binding.action, holdMs };
+  });
+  return bindings;
+};
+
+// Turns gesture events into bound actions, firing each at most once per gesture
+export class GestureActionDispatcher {
+  private bindings: GestureBindings;
+  private fired = new Set<BindableGesture>();
+
+  constructor(bindings: GestureBindings = DEFAULT_GESTURE_BINDINGS) {
+    this.bindings = bindings;
+  }
+
+  setBindings(bindings: GestureBindings) {
+    this.bindings = bindings;
+  }
+
+  handle(event: GestureEvent): GestureActionId | null {
+    if (!(BINDABLE_GESTURES as readonly GestureName[]).includes(event.gesture)) return null;
+    const gesture = event.gesture as BindableGesture;
+    if (event.phase === 'start') this.fired.delete(gesture);
+    if (event.phase === 'end' || this.fired.has(gesture)) return null;
+
+    const { action, holdMs } = this.bindings[gesture];
+    if (!action || event.duration < holdMs) return null;
+    this.fired.add(gesture);
+    return action;
+  }
+}
@@ -0,0 +1,287 @@
+import { GestureEvent, GestureName, GesturePhase, HandData, Handedness, HandPose } from '../types';
+import { Landmark, LandmarkSmoother } from './oneEuroFilter';
+import { WaveDetector } from './waveDetector';
+
+// All distances are in palm lengths (wrist to middle knuckle), so the same values work for
+// small and large hands, near or far from the camera
+export interface GestureThresholds {
+  // Average fingertip-to-wrist distance
+  openEnter: number;
+  openExit: number;
+  // Thumb tip to index tip distance
+  pinchEnter: number;
+  pinchExit: number;
+}
+
+export interface GestureRecognizerOptions {
+  thresholds: GestureThresholds;
+  minHoldMs: number; // A new state must persist this long before it is accepted
+  lostHandGraceMs: number; // Keep the last hand alive this long when detection drops out
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureRecognizerOptions = {
+  // Suits a typical adult hand; calibration replaces these with a user's own ranges
+  thresholds: {
+    openEnter: 1.6,
+    openExit: 1.35,
+    pinchEnter: 0.27,
+    pinchExit: 0.4,
+  },
+  minHoldMs: 120,
+  lostHandGraceMs: 300,
+};
+
+export interface GestureUpdate {
+  hand: HandData | null;
+  events: GestureEvent[];
+}
+
+// A boolean that only flips after crossing its enter/exit threshold and staying there for minHoldMs
+class DebouncedState {
+  value = false;
+  since = 0; // When the current value was accepted
+  private pendingSince: number | null = null;
+
+  update(candidate: boolean, timestamp: number, minHoldMs: number): boolean {
+    if (candidate === this.value) {
+      this.pendingSince = null;
+      return false;
+    }
+    if (this.pendingSince === null) this.pendingSince = timestamp;
+    if (timestamp - this.pendingSince < minHoldMs) return false;
+
+    this.value = candidate;
+    this.since = timestamp;
+    this.pendingSince = null;
+    return true;
+  }
+
+  reset() {
+    this.value = false;
+    this.since = 0;
+    this.pendingSince = null;
+  }
+}
+
+const distance2D = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Keeps the palm-relative measures finite for a degenerate detection
+const MIN_PALM = 1e-3;
+
+// Fingertip and middle joint of index, middle, ring and pinky
+const FINGERS = [[8, 6], [12, 10], [16, 14], [20, 18]];
+// A straight finger's tip is well beyond its middle joint, seen from the wrist
+const EXTENDED_RATIO = 1.15;
+
+type FingerState = 'extended' | 'curled' | 'between';
+
+const fingerStates = (lm: Landmark[]): FingerState[] => FINGERS.map(([tip, pip]) => {
+  const tipDistance = distance2D(lm[tip], lm[0]);
+  const pipDistance = distance2D(lm[pip], lm[0]);
+  if (tipDistance > pipDistance * EXTENDED_RATIO) return 'extended';
+  return tipDistance < pipDistance ? 'curled' : 'between';
+});
+
+// Exactly these fingers (index, middle, ring, pinky) straight, the others curled; the thumb is free
+const fingersMatch = (states: FingerState[], pattern: boolean[]) =>
+  states.every((state, i) => state === (pattern[i] ? 'extended' : 'curled'));
+
+// Thumb pointing up out of an otherwise closed hand. Measured against the palm size
+// (wrist to middle knuckle) so it works at any distance from the camera.
+const isThumbsUp = (lm: Landmark[], fingers: FingerState[], palm: number) => {
+  const thumbOut = distance2D(lm[4], lm[5]) > 0.6 * palm;
+  // Image y grows downwards
+  const thumbUp = lm[4].y < lm[2].y - 0.4 * palm && [8, 12, 16, 20].every(tip => lm[4].y < lm[tip].y);
+  return fingersMatch(fingers, [false, false, false, false]) && thumbOut && thumbUp;
+};
+
+// Index and middle finger up and apart, like a V
+const isVictory = (lm: Landmark[], fingers: FingerState[], palm: number) =>
+  fingersMatch(fingers, [true, true, false, false]) && distance2D(lm[8], lm[12]) > 0.3 * palm;
+
+// Hand poses that come and go on top of open/fist/pinch, each with start/hold/end events
+const POSES = ['thumbsUp', 'point', 'victory', 'rockOn', 'wave'] as const;
+type Pose = typeof POSES[number];
+// The poses that are a hand shape rather than a movement, reported on HandData
+const HAND_POSES: HandPose[] = ['thumbsUp', 'point', 'victory', 'rockOn'];
+
+export class GestureRecognizer {
+  readonly handedness: Handedness;
+  private options: GestureRecognizerOptions;
+  private smoother = new LandmarkSmoother();
+  private open = new DebouncedState();
+  private pinch = new DebouncedState();
+  private poses = Object.fromEntries(POSES.map(pose => [pose, new DebouncedState()])) as Record<Pose, DebouncedState>;
+  private waveDetector = new WaveDetector();
+  // Sideways wrist travel of the open hand, summed frame by frame in palm lengths of the moment
+  private waveTravel = 0;
+  private lastWaveX: number | null = null;
+  private tracking = false;
+  private lastHand: HandData | null = null;
+  private lastSeen = 0;
+
+  constructor(handedness: Handedness = 'Right', options: GestureRecognizerOptions = DEFAULT_GESTURE_OPTIONS) {
+    this.handedness = handedness;
+    this.options = options;
+  }
+
+  setThresholds(thresholds: GestureThresholds) {
+    this.options = { ...this.options, thresholds };
+  }
+
+  // Feed one frame of raw landmarks (or null when no hand was found)
+  update(landmarks: Landmark[] | null, timestamp: number, confidence = 1): GestureUpdate {
+    const events: GestureEvent[] = [];
+
+    if (!landmarks) {
+      if (this.tracking && timestamp - this.lastSeen > this.options.lostHandGraceMs) {
+        this.endAll(timestamp, events);
+      }
+      return { hand: this.tracking ? this.lastHand : null, events };
+    }
+
+    const smoothed = this.smoother.smooth(landmarks, timestamp);
+    const { thresholds, minHoldMs } = this.options;
+
+    // Landmark indices: 0=Wrist, 4=ThumbTip, 8=IndexTip, 12=MiddleTip, 16=RingTip, 20=PinkyTip
+    const wrist = smoothed[0];
+    const thumbTip = smoothed[4];
+    const indexTip = smoothed[8];
+    const fingerTips = [smoothed[8], smoothed[12], smoothed[16], smoothed[20]];
+
+    const palm = distance2D(wrist, smoothed[9]);
+    const scale = Math.max(palm, MIN_PALM);
+    const openness = fingerTips.reduce((acc, tip) => acc + distance2D(tip, wrist), 0) / fingerTips.length / scale;
+    const pinchDist = distance2D(thumbTip, indexTip);
+    const pinchRatio = pinchDist / scale;
+    const fingers = fingerStates(smoothed);
+    const poseCandidates: Record<Pose, boolean> = {
+      thumbsUp: isThumbsUp(smoothed, fingers, scale),
+      point: fingersMatch(fingers, [true, false, false, false]),
+      victory: isVictory(smoothed, fingers, scale),
+      rockOn: fingersMatch(fingers, [true, false, false, true]),
+      // Only an open hand waves
+      wave: this.waveDetector.update(this.open.value ? this.trackWave(wrist.x, scale) : null, timestamp),
+    };
+    if (!this.open.value) this.lastWaveX = null;
+
+    if (!this.tracking) {
+      // A freshly seen hand takes its state straight from the midpoint of each band
+      this.tracking = true;
+      this.open.value = openness > (thresholds.openEnter + thresholds.openExit) / 2;
+      this.open.since = timestamp;
+      this.pinch.value = pinchRatio < (thresholds.pinchEnter + thresholds.pinchExit) / 2;
+      this.pinch.since = timestamp;
+      POSES.forEach(pose => {
+        this.poses[pose].value = poseCandidates[pose];
+        this.poses[pose].since = timestamp;
+      });
+      this.emitCurrent(timestamp, events);
+    } else {
+      const openCandidate = this.open.value
+        ? openness > thresholds.openExit
+        : openness > thresholds.openEnter;
+      const openSince = this.open.since;
+      if (this.open.update(openCandidate, timestamp, minHoldMs)) {
+        this.emit(this.open.value ? 'fist' : 'open', 'end', timestamp, openSince, events);
+        this.emit(this.open.value ? 'open' : 'fist', 'start', timestamp, timestamp, events);
+      } else {
+        this.emit(this.open.value ? 'open' : 'fist', 'hold', timestamp, openSince, events);
+      }
+
+      const pinchCandidate = this.pinch.value
+        ? pinchRatio < thresholds.pinchExit
+        : pinchRatio < thresholds.pinchEnter;
+      const pinchSince = this.pinch.since;
+      if (this.pinch.update(pinchCandidate, timestamp, minHoldMs)) {
+        this.emit('pinch', this.pinch.value ? 'start' : 'end', timestamp, this.pinch.value ? timestamp : pinchSince, events);
+      } else if (this.pinch.value) {
+        this.emit('pinch', 'hold', timestamp, pinchSince, events);
+      }
+
+      POSES.forEach(pose => {
+        const state = this.poses[pose];
+        const since = state.since;
+        if (state.update(poseCandidates[pose], timestamp, minHoldMs)) {
+          this.emit(pose, state.value ? 'start' : 'end', timestamp, state.value ? timestamp : since, events);
+        } else if (state.value) {
+          this.emit(pose, 'hold', timestamp, since, events);
+        }
+      });
+    }
+
+    this.lastSeen = timestamp;
+    this.lastHand = {
+      handedness: this.handedness,
+      confidence,
+      isOpen: this.open.value,
+      isPinching: this.pinch.value,
+      pinchDistance: pinchDist,
+      wristPos: wrist,
+      indexTipPos: indexTip,
+      thumbTipPos: thumbTip,
+      handSize: palm,
+      openness,
+      pose: HAND_POSES.find(pose => this.poses[pose].value) ?? null,
+      timestamp,
+    };
+
+    return { hand: this.lastHand, events };
+  }
+
+  // 'start' events for whatever is currently held, used when this hand takes over as primary
+  currentGestures(timestamp: number): GestureEvent[] {
+    if (!this.tracking) return [];
+    const events: GestureEvent[] = [];
+    this.emitCurrent(timestamp, events);
+    return events;
+  }
+
+  // Force-end whatever is held, e.g. when the input source goes away
+  release(timestamp: number): GestureEvent[] {
+    const events: GestureEvent[] = [];
+    if (this.tracking) this.endAll(timestamp, events);
+    return events;
+  }
+
+  reset() {
+    this.smoother.reset();
+    this.open.reset();
+    this.pinch.reset();
+    POSES.forEach(pose => this.poses[pose].reset());
+    this.waveDetector.reset();
+    this.lastWaveX = null;
+    this.tracking = false;
+    this.lastHand = null;
+  }
+
+  // Each step is measured against the current palm size, so the swing needed doesn't depend on distance
+  // and moving the hand towards or away from the camera doesn't look like a swing
+  private trackWave(x: number, scale: number): number {
+    if (this.lastWaveX === null) this.waveTravel = 0;
+    else this.waveTravel += (x - this.lastWaveX) / scale;
+    this.lastWaveX = x;
+    return this.waveTravel;
+  }
+
+  private endAll(timestamp: number, events: GestureEvent[]) {
+    this.emit(this.open.value ? 'open' : 'fist', 'end', timestamp, this.open.since, events);
+    if (this.pinch.value) this.emit('pinch', 'end', timestamp, this.pinch.since, events);
+    POSES.forEach(pose => {
+      if (this.poses[pose].value) this.emit(pose, 'end', timestamp, this.poses[pose].since, events);
+    });
+    this.reset();
+  }
+
+  private emitCurrent(timestamp: number, events: GestureEvent[]) {
+    this.emit(this.open.value ? 'open' : 'fist', 'start', timestamp, timestamp, events);
+    if (this.pinch.value) this.emit('pinch', 'start', timestamp, timestamp, events);
+    POSES.forEach(pose => {
+      if (this.poses[pose].value) this.emit(pose, 'start', timestamp, timestamp, events);
+    });
+  }
+
+  private emit(gesture: GestureName, phase: GesturePhase, timestamp: number, since: number, events: GestureEvent[]) {
+    events.push({ gesture, phase, timestamp, duration: timestamp - since });
+  }
+}
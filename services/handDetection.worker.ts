@@ -0,0 +1,49 @@
+// Runs the HandLandmarker and gesture recognition off the main thread for WorkerHandPipeline, see handPipeline.ts
+import { HandDetectionService } from './handDetectionService';
+import { HandsRecognizer } from './handsRecognizer';
+import { HandWorkerRequest, HandWorkerResponse, toLandmarkFrame } from './handPipeline';
+
+// The DOM lib types `self` as a Window; this is all of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<HandWorkerRequest>) => void) | null;
+  postMessage: (message: HandWorkerResponse) => void;
+};
+
+const detector = new HandDetectionService();
+const recognizer = new HandsRecognizer();
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+scope.onmessage = async ({ data }) => {
+  switch (data.type) {
+    case 'init':
+      try {
+        // This is a module worker, so MediaPipe needs the ES module build of its wasm glue
+        scope.postMessage({ type: 'ready', backend: await detector.initialize({ ...data.options, wasmModule: true }) });
+      } catch (err) {
+        scope.postMessage({ type: 'error', message: errorMessage(err) });
+      }
+      break;
+    case 'frame': {
+      const { frame: image, timestamp } = data;
+      try {
+        const start = performance.now();
+        const frame = toLandmarkFrame(detector.detect(image, timestamp));
+        const detectionMs = performance.now() - start;
+        const { hands, events } = recognizer.update(frame, timestamp);
+        scope.postMessage({ type: 'result', timestamp, detectionMs, frame, hands, events });
+      } catch {
+        scope.postMessage({ type: 'dropped', timestamp });
+      } finally {
+        image.close();
+      }
+      break;
+    }
+    case 'thresholds':
+      recognizer.setThresholds(data.thresholds);
+      break;
+    case 'release':
+      scope.postMessage({ type: 'released', events: recognizer.release(data.timestamp) });
+      break;
+  }
+};
@@ -1,29 +1,96 @@
 import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from "@mediapipe/tasks-vision";
+// Bundled by Vite so the app works without reaching a CDN
+import wasmLoaderUrl from "@mediapipe/tasks-vision/vision_wasm_internal.js?url";
+import wasmBinaryUrl from "@mediapipe/tasks-vision/vision_wasm_internal.wasm?url";
+import wasmNoSimdLoaderUrl from "@mediapipe/tasks-vision/vision_wasm_nosimd_internal.js?url";
+import wasmNoSimdBinaryUrl from "@mediapipe/tasks-vision/vision_wasm_nosimd_internal.wasm?url";
+import wasmModuleLoaderUrl from "@mediapipe/tasks-vision/vision_wasm_module_internal.js?url";
+import wasmModuleBinaryUrl from "@mediapipe/tasks-vision/vision_wasm_module_internal.wasm?url";
+
+export type HandDetectionBackend = "GPU" | "CPU";
+
+export interface HandDetectionOptions {
+  // Folder holding vision_wasm_internal.{js,wasm}. Defaults to the copies bundled into the build.
+  wasmBasePath?: string;
+  // Load the ES module build of the wasm glue, which module workers can import. It only comes with SIMD.
+  wasmModule?: boolean;
+  // Served from public/models by default (see scripts/fetch-hand-model.mjs)
+  modelAssetPath: string;
+  // "auto" tries the GPU first and falls back to the CPU if it can't start
+  delegate: HandDetectionBackend | "auto";
+  numHands: number;
+}
+
+export const DEFAULT_HAND_DETECTION_OPTIONS: HandDetectionOptions = {
+  wasmBasePath: import.meta.env.VITE_MEDIAPIPE_WASM_PATH || undefined,
+  modelAssetPath: import.meta.env.VITE_HAND_MODEL_PATH || `${import.meta.env.BASE_URL}models/hand_landmarker.task`,
+  delegate: "auto",
+  numHands: 2,
+};
 
 export class HandDetectionService {
   private handLandmarker: HandLandmarker | undefined;
   private runningMode: "IMAGE" | "VIDEO" = "VIDEO";
-  
-  async initialize() {
-    const vision = await FilesetResolver.forVisionTasks(
-      "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-    );
-    
-    this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
-      baseOptions: {
-        modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-        delegate: "GPU"
-      },
-      runningMode: this.runningMode,
-      numHands: 2
-    });
+  private activeBackend: HandDetectionBackend | null = null;
+
+  // Which delegate the landmarker ended up running on, once initialized
+  get backend(): HandDetectionBackend | null {
+    return this.activeBackend;
+  }
+
+  async initialize(options: Partial<HandDetectionOptions> = {}): Promise<HandDetectionBackend> {
+    const config = { ...DEFAULT_HAND_DETECTION_OPTIONS, ...options };
+    const vision = await this.resolveWasm(config.wasmBasePath, config.wasmModule);
+
+    const delegates: HandDetectionBackend[] = config.delegate === "auto" ? ["GPU", "CPU"] : [config.delegate];
+    let lastError: unknown;
+
+    for (const delegate of delegates) {
+      try {
+        this.handLandmarker?.close();
+        this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
+          baseOptions: {
+            modelAssetPath: config.modelAssetPath,
+            delegate,
+          },
+          runningMode: this.runningMode,
+          numHands: config.numHands,
+        });
+        this.activeBackend = delegate;
+        console.info(`Hand detection running on ${delegate}`);
+        return delegate;
+      } catch (err) {
+        console.warn(`Hand detection failed to start on ${delegate}:`, err);
+        lastError = err;
+      }
+    }
+
+    this.handLandmarker = undefined;
+    this.activeBackend = null;
+    throw lastError;
   }
 
-  detect(video: HTMLVideoElement): HandLandmarkerResult | null {
+  // Accepts the video element itself, or a frame grabbed from it (e.g. inside a worker)
+  detect(image: TexImageSource, timestampMs: number = performance.now()): HandLandmarkerResult | null {
     if (!this.handLandmarker) return null;
-    const startTimeMs = performance.now();
-    return this.handLandmarker.detectForVideo(video, startTimeMs);
+    return this.handLandmarker.detectForVideo(image, timestampMs);
+  }
+
+  private async resolveWasm(basePath?: string, module = false) {
+    const simd = await FilesetResolver.isSimdSupported();
+    if (module) {
+      if (!simd) throw new Error("The module build of hand detection needs WebAssembly SIMD");
+      if (basePath) return FilesetResolver.forVisionTasks(basePath, true);
+      return { wasmLoaderPath: wasmModuleLoaderUrl, wasmBinaryPath: wasmModuleBinaryUrl };
+    }
+    if (basePath) {
+      return FilesetResolver.forVisionTasks(basePath);
+    }
+    return {
+      wasmLoaderPath: simd ? wasmLoaderUrl : wasmNoSimdLoaderUrl,
+      wasmBinaryPath: simd ? wasmBinaryUrl : wasmNoSimdBinaryUrl,
+    };
   }
 }
 
-export const handDetectionService = new HandDetectionService();
\ No newline at end of file
+export const handDetectionService = new HandDetectionService();
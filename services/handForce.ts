@@ -0,0 +1,90 @@
+// The hand as a force on the particle cloud: an open palm pushes particles out of its way, and a
+// pinch pulls the nearby ones into a cluster swirling around the fingertips. Works in the particle
+// field's own space; the Scene projects the hand into it every frame.
+
+export type HandForceMode = 'push' | 'pull';
+
+export interface ForceFieldOptions {
+  pushRadius: number; // Scene units around the palm
+  pushStrength: number; // Scene units per second squared at the palm
+  sweep: number; // Share of the palm's own speed passed on to the particles it moves through (per second)
+  pullRadius: number; // Scene units around the pinch
+  pullStrength: number; // Per second squared, per scene unit outside the cluster
+  clusterRadius: number; // Pulled particles gather on a shell this far from the pinch
+  swirl: number; // Scene units per second around the pinch, at the cluster
+  capture: number; // How much a pinch loosens the pull of the formation on the particles it holds (0-1)
+  fadeIn: number; // How quickly the force builds up when the hand arrives (1/s)
+  fadeOut: number; // How quickly it lets go when the hand leaves (1/s)
+}
+
+export const DEFAULT_FORCE_FIELD_OPTIONS: ForceFieldOptions = {
+  pushRadius: 3,
+  pushStrength: 60,
+  sweep: 6,
+  pullRadius: 4,
+  pullStrength: 30,
+  clusterRadius: 0.8,
+  swirl: 4,
+  capture: 0.9,
+  fadeIn: 6,
+  fadeOut: 3,
+};
+
+export interface ForceInput {
+  mode: HandForceMode;
+  x: number;
+  y: number;
+  z: number;
+  // Unit axis the pull swirls around, normally pointing from the viewer into the scene
+  axis: [number, number, number];
+}
+
+export class HandForceField {
+  mode: HandForceMode | null = null;
+  x = 0;
+  y = 0;
+  z = 0;
+  // Smoothed hand velocity, scene units per second
+  vx = 0;
+  vy = 0;
+  vz = 0;
+  axis: [number, number, number] = [0, 0, 1];
+  strength = 0; // 0-1, eases in and out so particles aren't kicked when the hand appears or leaves
+  readonly options: ForceFieldOptions;
+  private tracking = false;
+
+  constructor(options: ForceFieldOptions = DEFAULT_FORCE_FIELD_OPTIONS) {
+    this.options = options;
+  }
+
+  // Feed the projected hand once per frame, or null while it exerts no force
+  update(input: ForceInput | null, delta: number) {
+    const { fadeIn, fadeOut } = this.options;
+
+    if (input) {
+      // Switching between push and pull starts the new force from nothing
+      if (input.mode !== this.mode) this.strength = 0;
+      if (this.tracking && input.mode === this.mode && delta > 0) {
+        const follow = Math.min(1, delta * 10);
+        this.vx += ((input.x - this.x) / delta - this.vx) * follow;
+        this.vy += ((input.y - this.y) / delta - this.vy) * follow;
+        this.vz += ((input.z - this.z) / delta - this.vz) * follow;
+      } else {
+        this.vx = this.vy = this.vz = 0;
+      }
+      this.mode = input.mode;
+      this.x = input.x;
+      this.y = input.y;
+      this.z = input.z;
+      this.axis = input.axis;
+      this.tracking = true;
+      this.strength = Math.min(1, this.strength + fadeIn * delta);
+    } else {
+      // Keep the last position while the force fades out, so particles aren't yanked elsewhere
+      this.tracking = false;
+      this.vx = this.vy = this.vz = 0;
+      this.strength = Math.max(0, this.strength - fadeOut * delta);
+      if (this.strength === 0) this.mode = null;
+    }
+  }
+}
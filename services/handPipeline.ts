@@ -0,0 +1,235 @@
+// Hand detection plus gesture recognition for camera frames. Runs the HandLandmarker in a worker
+// so inference doesn't eat into the render loop, and on the main thread where that isn't possible.
+import { GestureEvent, MultiHandData } from '../types';
+import { GestureThresholds } from './gestureRecognizer';
+import { DEFAULT_HAND_DETECTION_OPTIONS, HandDetectionBackend, HandDetectionOptions, handDetectionService } from './handDetectionService';
+import { HandsRecognizer, LandmarkFrame } from './handsRecognizer';
+
+export interface HandPipelineResult {
+  timestamp: number; // performance.now() on the main thread when the frame was grabbed
+  detectionMs: number;
+  frame: LandmarkFrame | null; // Raw landmarks, for session recording
+  hands: MultiHandData;
+  events: GestureEvent[];
+}
+
+export interface HandPipeline {
+  readonly location: 'worker' | 'main';
+  readonly backend: HandDetectionBackend;
+  // Hands over the current camera frame. Returns false if it was dropped because the previous
+  // frame is still being processed: keeping at most one in flight keeps latency at one frame.
+  process(video: HTMLVideoElement, timestamp: number): boolean;
+  // Open/fist/pinch cutoffs, e.g. from the user's calibration profile
+  setThresholds(thresholds: GestureThresholds): void;
+  // Ends whatever gestures are held, e.g. when the camera goes away
+  release(timestamp: number): Promise<GestureEvent[]>;
+  close(): void;
+}
+
+// Messages between WorkerHandPipeline and handDetection.worker.ts
+export type HandWorkerRequest =
+  | { type: 'init'; options: Partial<HandDetectionOptions> }
+  | { type: 'frame'; frame: VideoFrame | ImageBitmap; timestamp: number }
+  | { type: 'thresholds'; thresholds: GestureThresholds }
+  | { type: 'release'; timestamp: number };
+
+export type HandWorkerResponse =
+  | { type: 'ready'; backend: HandDetectionBackend }
+  | { type: 'error'; message: string }
+  | ({ type: 'result' } & HandPipelineResult)
+  | { type: 'dropped'; timestamp: number }
+  | { type: 'released'; events: GestureEvent[] };
+
+type ResultListener = (result: HandPipelineResult) => void;
+
+// Only the fields the recognizer reads, so results stay small when posted between threads
+export const toLandmarkFrame = (result: LandmarkFrame | null): LandmarkFrame | null => result && {
+  landmarks: result.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+  handedness: result.handedness.map(categories => categories.map(({ categoryName, score }) => ({ categoryName, score }))),
+};
+
+class MainThreadHandPipeline implements HandPipeline {
+  readonly location = 'main';
+  readonly backend: HandDetectionBackend;
+  private recognizer = new HandsRecognizer();
+  private onResult: ResultListener;
+
+  constructor(backend: HandDetectionBackend, onResult: ResultListener) {
+    this.backend = backend;
+    this.onResult = onResult;
+  }
+
+  process(video: HTMLVideoElement, timestamp: number): boolean {
+    const start = performance.now();
+    const frame = toLandmarkFrame(handDetectionService.detect(video, timestamp));
+    const detectionMs = performance.now() - start;
+    const { hands, events } = this.recognizer.update(frame, timestamp);
+    this.onResult({ timestamp, detectionMs, frame, hands, events });
+    return true;
+  }
+
+  setThresholds(thresholds: GestureThresholds) {
+    this.recognizer.setThresholds(thresholds);
+  }
+
+  async release(timestamp: number): Promise<GestureEvent[]> {
+    return this.recognizer.release(timestamp);
+  }
+
+  close() {}
+}
+
+// Give up on the worker if the model hasn't loaded by then
+const WORKER_START_TIMEOUT_MS = 20000;
+// A frame the worker hasn't answered by then is treated as lost
+const FRAME_TIMEOUT_MS = 1000;
+// This many lost frames in a row means the worker has hung
+const MAX_LOST_FRAMES = 3;
+
+class WorkerHandPipeline implements HandPipeline {
+  readonly location = 'worker';
+  readonly backend: HandDetectionBackend;
+  private worker: Worker;
+  private onResult: ResultListener;
+  private onFailure: () => void;
+  private inFlight: { timestamp: number; sentAt: number } | null = null;
+  private lastDelivered = -Infinity;
+  private lostFrames = 0;
+  private pendingRelease: ((events: GestureEvent[]) => void) | null = null;
+  private closed = false;
+
+  private constructor(worker: Worker, backend: HandDetectionBackend, onResult: ResultListener, onFailure: () => void) {
+    this.worker = worker;
+    this.backend = backend;
+    this.onResult = onResult;
+    this.onFailure = onFailure;
+    worker.onmessage = this.handleMessage;
+    worker.onerror = (event) => this.fail(event.message);
+  }
+
+  static start(onResult: ResultListener, onFailure: () => void): Promise<WorkerHandPipeline> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./handDetection.worker.ts', import.meta.url), { type: 'module' });
+      const timer = setTimeout(() => fail(new Error("Hand detection worker did not start in time")), WORKER_START_TIMEOUT_MS);
+      const fail = (err: Error) => {
+        clearTimeout(timer);
+        worker.terminate();
+        reject(err);
+      };
+
+      worker.onerror = (event) => fail(new Error(event.message || "Hand detection worker failed to load"));
+      worker.onmessage = ({ data }: MessageEvent<HandWorkerResponse>) => {
+        if (data.type === 'ready') {
+          clearTimeout(timer);
+          resolve(new WorkerHandPipeline(worker, data.backend, onResult, onFailure));
+        } else if (data.type === 'error') {
+          fail(new Error(data.message));
+        }
+      };
+
+      // The worker resolves paths against its own URL, so hand it absolute ones
+      const options: Partial<HandDetectionOptions> = {
+        modelAssetPath: new URL(DEFAULT_HAND_DETECTION_OPTIONS.modelAssetPath, document.baseURI).href,
+        wasmBasePath: DEFAULT_HAND_DETECTION_OPTIONS.wasmBasePath && new URL(DEFAULT_HAND_DETECTION_OPTIONS.wasmBasePath, document.baseURI).href,
+      };
+      worker.postMessage({ type: 'init', options } satisfies HandWorkerRequest);
+    });
+  }
+
+  process(video: HTMLVideoElement, timestamp: number): boolean {
+    if (this.closed) return false;
+    if (this.inFlight) {
+      if (performance.now() - this.inFlight.sentAt < FRAME_TIMEOUT_MS) return false;
+      // Lost in the worker: stop waiting for it, and give up on the worker if it keeps happening
+      this.inFlight = null;
+      if (++this.lostFrames >= MAX_LOST_FRAMES) {
+        this.fail("Hand detection worker stopped responding");
+        return false;
+      }
+    }
+
+    this.inFlight = { timestamp, sentAt: performance.now() };
+    // VideoFrame hands the camera frame over without a copy; ImageBitmap is the fallback
+    if (typeof VideoFrame !== 'undefined') {
+      this.post(new VideoFrame(video, { timestamp: Math.round(timestamp * 1000) }), timestamp);
+    } else {
+      createImageBitmap(video).then(
+        bitmap => this.post(bitmap, timestamp),
+        () => { this.inFlight = null; }
+      );
+    }
+    return true;
+  }
+
+  private post(frame: VideoFrame | ImageBitmap, timestamp: number) {
+    if (this.closed) {
+      frame.close();
+      return;
+    }
+    this.worker.postMessage({ type: 'frame', frame, timestamp } satisfies HandWorkerRequest, [frame]);
+  }
+
+  setThresholds(thresholds: GestureThresholds) {
+    if (!this.closed) this.worker.postMessage({ type: 'thresholds', thresholds } satisfies HandWorkerRequest);
+  }
+
+  release(timestamp: number): Promise<GestureEvent[]> {
+    if (this.closed) return Promise.resolve([]);
+    return new Promise(resolve => {
+      this.pendingRelease = resolve;
+      this.worker.postMessage({ type: 'release', timestamp } satisfies HandWorkerRequest);
+    });
+  }
+
+  close() {
+    this.closed = true;
+    this.pendingRelease?.([]);
+    this.pendingRelease = null;
+    this.worker.terminate();
+  }
+
+  private handleMessage = ({ data }: MessageEvent<HandWorkerResponse>) => {
+    switch (data.type) {
+      case 'result': {
+        if (this.inFlight?.timestamp === data.timestamp) this.inFlight = null;
+        this.lostFrames = 0;
+        // A frame given up on earlier may still come back after a newer one
+        if (data.timestamp <= this.lastDelivered) return;
+        this.lastDelivered = data.timestamp;
+        const { type: _type, ...result } = data;
+        this.onResult(result);
+        break;
+      }
+      case 'dropped':
+        if (this.inFlight?.timestamp === data.timestamp) this.inFlight = null;
+        break;
+      case 'released':
+        this.pendingRelease?.(data.events);
+        this.pendingRelease = null;
+        break;
+    }
+  };
+
+  private fail(message: string) {
+    if (this.closed) return;
+    console.warn(`${message}; continuing on the main thread`);
+    this.close();
+    this.onFailure();
+  }
+}
+
+export const startMainThreadPipeline = async (onResult: ResultListener): Promise<HandPipeline> =>
+  new MainThreadHandPipeline(await handDetectionService.initialize(), onResult);
+
+// Prefers the worker. If it can't start, or stops responding later (onFailure), detection continues
+// on the main thread.
+export const startHandPipeline = async (onResult: ResultListener, onFailure: () => void): Promise<HandPipeline> => {
+  if (typeof Worker !== 'undefined') {
+    try {
+      return await WorkerHandPipeline.start(onResult, onFailure);
+    } catch (err) {
+      console.warn("Hand detection worker unavailable, running on the main thread:", err);
+    }
+  }
+  return startMainThreadPipeline(onResult);
+};
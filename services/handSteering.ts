@@ -0,0 +1,73 @@
+// Turns a closed hand into scene control: dragging sideways spins the tree, and the spin carries on
+// with inertia once the hand lets go. Dragging up/down tilts it, and bringing the hand towards or away
+// from the camera zooms. Works on screen-space coordinates (0-1, y down, mirrored like the preview).
+
+export interface SteeringOptions {
+  rotationGain: number; // Radians per screen width of hand travel
+  tiltGain: number; // Radians per screen height
+  maxTilt: number; // Radians either way
+  friction: number; // How quickly a released spin dies down (per second, exponential)
+  zoomRange: [number, number]; // Camera distance, as a multiple of the theme's distance
+}
+
+export const DEFAULT_STEERING_OPTIONS: SteeringOptions = {
+  rotationGain: Math.PI * 2,
+  tiltGain: 1.5,
+  maxTilt: 0.5,
+  friction: 2.5,
+  zoomRange: [0.6, 1.6],
+};
+
+export interface SteeringInput {
+  x: number;
+  y: number;
+  size: number; // Apparent hand size, see HandData.handSize
+}
+
+export class HandSteering {
+  rotation = 0; // Radians around the tree's axis, same sense as three's rotation.y
+  tilt = 0; // Radians, same sense as rotation.x
+  zoom = 1;
+  private options: SteeringOptions;
+  private velocity = 0; // Radians per second
+  private last: SteeringInput | null = null;
+  private grab = { zoom: 1, size: 0 };
+
+  constructor(options: SteeringOptions = DEFAULT_STEERING_OPTIONS) {
+    this.options = options;
+  }
+
+  // Feed the closed hand once per frame, or null while nothing is steering
+  update(input: SteeringInput | null, delta: number) {
+    const { rotationGain, tiltGain, maxTilt, friction, zoomRange } = this.options;
+
+    if (input && this.last) {
+      const step = (input.x - this.last.x) * rotationGain;
+      this.rotation += step;
+      // Averaged over a few frames so letting go carries the recent motion, not one noisy frame
+      if (delta > 0) this.velocity += (step / delta - this.velocity) * Math.min(1, delta * 10);
+      this.tilt = Math.max(-maxTilt, Math.min(maxTilt, this.tilt + (input.y - this.last.y) * tiltGain));
+      // A hand twice as big on screen is twice as close, so the camera comes in by half
+      if (this.grab.size > 0 && input.size > 0) {
+        this.zoom = Math.max(zoomRange[0], Math.min(zoomRange[1], this.grab.zoom * (this.grab.size / input.size)));
+      }
+    } else if (input) {
+      // New grab: stop any coasting spin and measure depth from here
+      this.velocity = 0;
+      this.grab = { zoom: this.zoom, size: input.size };
+    } else {
+      this.rotation += this.velocity * delta;
+      this.velocity *= Math.exp(-friction * delta);
+    }
+
+    this.last = input;
+  }
+
+  reset() {
+    this.rotation = 0;
+    this.tilt = 0;
+    this.zoom = 1;
+    this.velocity = 0;
+    this.last = null;
+  }
+}
@@ -0,0 +1,63 @@
+// Wind gusts from hand motion: sweeping the hand across the camera blows the snow (and an
+// exploded tree) the same way, and the gust dies down once the hand stops.
+
+export interface WindOptions {
+  gain: number; // Scene units per second of wind per screen size per second of hand speed
+  minHandSpeed: number; // Screen sizes per second; slower movement is just the hand being held
+  attack: number; // How quickly a gust builds up (1/s)
+  decay: number; // How quickly it dies down (1/s)
+  maxSpeed: number; // Scene units per second
+}
+
+export const DEFAULT_WIND_OPTIONS: WindOptions = {
+  gain: 5,
+  minHandSpeed: 0.4,
+  attack: 8,
+  decay: 1.2,
+  maxSpeed: 8,
+};
+
+export class HandWind {
+  // Current gust along the screen: x = viewer's right, y = up
+  x = 0;
+  y = 0;
+  private options: WindOptions;
+  private last: { x: number; y: number; t: number } | null = null;
+
+  constructor(options: WindOptions = DEFAULT_WIND_OPTIONS) {
+    this.options = options;
+  }
+
+  // Feed the hand's screen position (0-1, y down, already mirrored) every frame, or null when no hand blows
+  update(point: { x: number; y: number } | null, timestamp: number, delta: number) {
+    const { gain, minHandSpeed, attack, decay, maxSpeed } = this.options;
+
+    if (point && this.last && timestamp > this.last.t) {
+      const dt = (timestamp - this.last.t) / 1000;
+      const vx = (point.x - this.last.x) / dt;
+      const vy = -(point.y - this.last.y) / dt;
+      if (Math.hypot(vx, vy) > minHandSpeed) {
+        const pull = Math.min(1, attack * dt);
+        this.x += (vx * gain - this.x) * pull;
+        this.y += (vy * gain - this.y) * pull;
+      }
+    }
+    if (!point) this.last = null;
+    else if (!this.last || timestamp > this.last.t) this.last = { x: point.x, y: point.y, t: timestamp };
+
+    const fade = Math.exp(-decay * delta);
+    this.x *= fade;
+    this.y *= fade;
+    const speed = Math.hypot(this.x, this.y);
+    if (speed > maxSpeed) {
+      this.x *= maxSpeed / speed;
+      this.y *= maxSpeed / speed;
+    }
+  }
+
+  reset() {
+    this.x = 0;
+    this.y = 0;
+    this.last = null;
+  }
+}
@@ -0,0 +1,128 @@
+import { GestureEvent, HandData, Handedness, MultiHandData, TwoHandGesture } from '../types';
+import { GestureRecognizer, GestureThresholds } from './gestureRecognizer';
+import { Landmark } from './oneEuroFilter';
+
+// The parts of a HandLandmarkerResult the recognizer reads. A live result fits this shape,
+// and so does a frame loaded back from a recorded session.
+export interface LandmarkFrame {
+  landmarks: Landmark[][];
+  handedness: { categoryName: string; score: number }[][];
+}
+
+export interface HandsUpdate {
+  hands: MultiHandData;
+  events: GestureEvent[]; // Single-hand gesture events from the primary hand only
+}
+
+const HANDEDNESS: Handedness[] = ['Left', 'Right'];
+
+// MediaPipe labels handedness assuming a mirrored (selfie) image, but we feed it the raw camera frame
+const flipHandedness = (label: string): Handedness => (label === 'Left' ? 'Right' : 'Left');
+
+// Midpoint between thumb and index tip, i.e. where the pinch is "held"
+const pinchPoint = (hand: HandData): Landmark => ({
+  x: (hand.thumbTipPos.x + hand.indexTipPos.x) / 2,
+  y: (hand.thumbTipPos.y + hand.indexTipPos.y) / 2,
+  z: (hand.thumbTipPos.z + hand.indexTipPos.z) / 2,
+});
+
+// Tracks up to two hands by handedness, picks a sticky primary hand and derives two-hand gestures
+export class HandsRecognizer {
+  private recognizers: Record<Handedness, GestureRecognizer> = {
+    Left: new GestureRecognizer('Left'),
+    Right: new GestureRecognizer('Right'),
+  };
+  private primary: Handedness | null = null;
+  private twoHandStart: { distance: number; angle: number; timestamp: number } | null = null;
+
+  get all(): GestureRecognizer[] {
+    return HANDEDNESS.map(h => this.recognizers[h]);
+  }
+
+  setThresholds(thresholds: GestureThresholds) {
+    this.all.forEach(recognizer => recognizer.setThresholds(thresholds));
+  }
+
+  update(result: LandmarkFrame | null, timestamp: number): HandsUpdate {
+    // Pick the most confident detection for each label
+    const detections: Partial<Record<Handedness, { landmarks: Landmark[]; score: number }>> = {};
+    result?.landmarks?.forEach((landmarks, i) => {
+      const category = result.handedness?.[i]?.[0];
+      const label = category ? flipHandedness(category.categoryName) : 'Right';
+      const score = category?.score ?? 1;
+      const existing = detections[label];
+      if (!existing || existing.score < score) {
+        detections[label] = { landmarks, score };
+      }
+    });
+
+    const hands: Record<Handedness, HandData | null> = { Left: null, Right: null };
+    let events: GestureEvent[] = [];
+
+    HANDEDNESS.forEach(label => {
+      const detection = detections[label];
+      const update = this.recognizers[label].update(detection?.landmarks ?? null, timestamp, detection?.score);
+      hands[label] = update.hand;
+      // End events of the outgoing primary still need to reach listeners
+      if (label === this.primary) events = update.events;
+    });
+
+    // The primary hand stays primary until it is lost, then the other hand takes over
+    if (!this.primary || !hands[this.primary]) {
+      const next = HANDEDNESS.find(label => hands[label]) ?? null;
+      if (next && next !== this.primary) {
+        events = [...events, ...this.recognizers[next].currentGestures(timestamp)];
+      }
+      this.primary = next;
+    }
+
+    return {
+      hands: {
+        left: hands.Left,
+        right: hands.Right,
+        primary: this.primary,
+        twoHand: this.updateTwoHand(hands.Left, hands.Right, timestamp),
+      },
+      events,
+    };
+  }
+
+  // End the primary hand's gestures and forget both hands
+  release(timestamp: number): GestureEvent[] {
+    const events = this.primary ? this.recognizers[this.primary].release(timestamp) : [];
+    this.reset();
+    return events;
+  }
+
+  reset() {
+    this.all.forEach(r => r.reset());
+    this.primary = null;
+    this.twoHandStart = null;
+  }
+
+  private updateTwoHand(left: HandData | null, right: HandData | null, timestamp: number): TwoHandGesture | null {
+    if (!left || !right || !left.isPinching || !right.isPinching) {
+      this.twoHandStart = null;
+      return null;
+    }
+
+    const a = pinchPoint(left);
+    const b = pinchPoint(right);
+    const distance = Math.hypot(b.x - a.x, b.y - a.y);
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+
+    if (!this.twoHandStart) {
+      this.twoHandStart = { distance, angle, timestamp };
+    }
+
+    // Unwrap so a twist across ±PI doesn't jump by a full turn
+    let rotation = angle - this.twoHandStart.angle;
+    rotation = Math.atan2(Math.sin(rotation), Math.cos(rotation));
+
+    return {
+      scale: this.twoHandStart.distance > 0 ? distance / this.twoHandStart.distance : 1,
+      rotation,
+      duration: timestamp - this.twoHandStart.timestamp,
+    };
+  }
+}
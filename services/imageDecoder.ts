@@ -0,0 +1,125 @@
+// Turns photo files into GPU-ready bitmaps without stalling rendering: decoding and downscaling
+// run in a worker, with the same code on the main thread where workers can't be used.
+
+export interface DecodedImage {
+  bitmap: ImageBitmap; // Upright, flipped for WebGL and no bigger than the requested size
+  width: number; // Size of the upright original
+  height: number;
+}
+
+// Longest side of a photo texture. Enough for a card filling the screen, small enough that
+// a few dozen phone photos fit in GPU memory.
+export const MAX_TEXTURE_SIZE = 1024;
+
+export const decodeImage = async (blob: Blob, maxSize: number): Promise<DecodedImage> => {
+  // 'from-image' applies the EXIF orientation, so portrait phone photos come out upright
+  const full = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = full;
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    // Flipped here because WebGL ignores UNPACK_FLIP_Y for ImageBitmaps
+    const bitmap = await createImageBitmap(full, {
+      resizeWidth: Math.max(1, Math.round(width * scale)),
+      resizeHeight: Math.max(1, Math.round(height * scale)),
+      resizeQuality: 'high',
+      imageOrientation: 'flipY',
+    });
+    return { bitmap, width, height };
+  } finally {
+    full.close();
+  }
+};
+
+export interface DecodeRequest {
+  id: number;
+  blob: Blob;
+  maxSize: number;
+}
+
+export type DecodeResponse =
+  | { id: number; image: DecodedImage }
+  | { id: number; error: string };
+
+// Decodes running at once. Each holds a full-size bitmap in memory until it's downscaled, so a
+// folder of phone photos has to wait its turn rather than all decode together.
+const MAX_CONCURRENT_DECODES = 2;
+
+interface PendingDecode {
+  blob: Blob;
+  maxSize: number;
+  resolve: (image: DecodedImage) => void;
+  reject: (err: Error) => void;
+}
+
+export class ImageDecoder {
+  private worker: Worker | null | undefined; // undefined until first used, null if unavailable
+  private pending = new Map<number, PendingDecode>(); // Sent to the worker, awaiting its answer
+  private queue: PendingDecode[] = []; // Waiting for a free slot
+  private running = 0;
+  private nextId = 0;
+
+  decode(blob: Blob, maxSize = MAX_TEXTURE_SIZE): Promise<DecodedImage> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ blob, maxSize, resolve, reject });
+      this.startNext();
+    });
+  }
+
+  private startNext() {
+    while (this.running < MAX_CONCURRENT_DECODES && this.queue.length > 0) {
+      const { blob, maxSize, resolve, reject } = this.queue.shift()!;
+      this.running++;
+      this.run(blob, maxSize)
+        .then(resolve, reject)
+        .finally(() => {
+          this.running--;
+          this.startNext();
+        });
+    }
+  }
+
+  private run(blob: Blob, maxSize: number): Promise<DecodedImage> {
+    const worker = this.getWorker();
+    if (!worker) return decodeImage(blob, maxSize);
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.pending.set(id, { blob, maxSize, resolve, reject });
+      worker.postMessage({ id, blob, maxSize } satisfies DecodeRequest);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker === undefined) {
+      try {
+        this.worker = new Worker(new URL('./imageDecoder.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = this.handleMessage;
+        this.worker.onerror = this.handleCrash;
+      } catch (err) {
+        console.warn("Image worker unavailable, decoding on the main thread:", err);
+        this.worker = null;
+      }
+    }
+    return this.worker;
+  }
+
+  private handleMessage = ({ data }: MessageEvent<DecodeResponse>) => {
+    const request = this.pending.get(data.id);
+    if (!request) return;
+    this.pending.delete(data.id);
+    if ('image' in data) request.resolve(data.image);
+    else request.reject(new Error(data.error));
+  };
+
+  // A worker that can't start (e.g. no module worker support) fails as a whole: finish what it was sent here
+  private handleCrash = (event: ErrorEvent) => {
+    console.warn("Image worker failed, decoding on the main thread:", event.message);
+    this.worker?.terminate();
+    this.worker = null;
+    const queued = Array.from(this.pending.values());
+    this.pending.clear();
+    queued.forEach(({ blob, maxSize, resolve, reject }) => decodeImage(blob, maxSize).then(resolve, reject));
+  };
+}
+
+export const imageDecoder = new ImageDecoder();
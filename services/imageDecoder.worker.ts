@@ -0,0 +1,17 @@
+// Decodes and downscales photos for ImageDecoder, see imageDecoder.ts
+import { decodeImage, DecodeRequest, DecodeResponse } from './imageDecoder';
+
+// The DOM lib types `self` as a Window; this is all of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DecodeRequest>) => void) | null;
+  postMessage: (message: DecodeResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = async ({ data: { id, blob, maxSize } }) => {
+  try {
+    const image = await decodeImage(blob, maxSize);
+    scope.postMessage({ id, image }, [image.bitmap]);
+  } catch (err) {
+    scope.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,375 @@
+import { GestureEvent, GestureName, HandData, HandPose, MultiHandData } from '../types';
+import { HandsRecognizer } from './handsRecognizer';
+import { GestureThresholds } from './gestureRecognizer';
+import { RecordedSession } from './sessionRecorder';
+
+// Where HandData comes from. The webcam source is the HandTracker component;
+// pointer and keyboard synthesize HandData from regular input devices, and replay
+// plays back a recorded landmark session.
+export type InputSource = 'webcam' | 'pointer' | 'keyboard' | 'replay';
+
+export interface InputSink {
+  onHandUpdate: (data: HandData | null) => void;
+  onHandsUpdate?: (data: MultiHandData) => void;
+  onGestureEvent?: (event: GestureEvent) => void;
+}
+
+export interface InputProvider {
+  readonly source: InputSource;
+  start(sink: InputSink): void;
+  stop(): void;
+}
+
+// The camera's default pinch cutoff for a hand of HAND_SIZE, so every source agrees on what a pinch is
+const PINCH_THRESHOLD = 0.05;
+const PINCH_RELEASED = 0.1;
+// Palm size of a hand at a comfortable distance from the camera, and how far the keyboard can move it
+const HAND_SIZE = 0.15;
+const HAND_SIZE_RANGE: [number, number] = [0.08, 0.3];
+// Fingertip spread in palm lengths, see HandData.openness
+const OPENNESS = { open: 1.9, fist: 0.9 };
+const HAND_POSES: HandPose[] = ['thumbsUp', 'point', 'victory', 'rockOn'];
+
+interface SyntheticHandState {
+  present: boolean;
+  isOpen: boolean;
+  pinchDistance: number;
+  poses: Set<GestureName>; // Held on top of open/fist, e.g. thumbsUp
+  aiming: boolean; // Only there to aim, like a pointing finger: raises no open/fist gestures
+  handSize: number;
+  x: number; // Normalized camera-space coordinates (x is mirrored like the webcam image)
+  y: number;
+}
+
+// Shared plumbing for providers that fake a single hand: runs a frame loop that publishes
+// HandData and turns state changes into the same start/hold/end events the camera produces.
+abstract class SyntheticHandProvider implements InputProvider {
+  abstract readonly source: InputSource;
+  protected state: SyntheticHandState = {
+    present: false,
+    isOpen: true,
+    pinchDistance: PINCH_RELEASED,
+    poses: new Set(),
+    aiming: false,
+    handSize: HAND_SIZE,
+    x: 0.5,
+    y: 0.5,
+  };
+  private sink: InputSink | null = null;
+  private frame: number | undefined;
+  private activeSince = new Map<GestureName, number>();
+
+  start(sink: InputSink) {
+    this.sink = sink;
+    this.attach();
+    this.frame = requestAnimationFrame(this.tick);
+  }
+
+  stop() {
+    if (this.frame !== undefined) cancelAnimationFrame(this.frame);
+    this.detach();
+    this.state.present = false;
+    this.publish(performance.now());
+    this.sink = null;
+  }
+
+  protected abstract attach(): void;
+  protected abstract detach(): void;
+
+  private tick = () => {
+    this.publish(performance.now());
+    this.frame = requestAnimationFrame(this.tick);
+  };
+
+  private publish(timestamp: number) {
+    if (!this.sink) return;
+    const { present, isOpen, pinchDistance, aiming, handSize, x, y } = this.state;
+    const isPinching = pinchDistance < PINCH_THRESHOLD;
+
+    const hand: HandData | null = present ? {
+      handedness: 'Right',
+      confidence: 1,
+      isOpen,
+      isPinching,
+      pinchDistance,
+      // The pointer is where the index finger points, so the 3D cursor sits under the mouse
+      wristPos: { x, y: y + 0.15, z: 0 },
+      indexTipPos: { x, y, z: 0 },
+      thumbTipPos: { x: x + pinchDistance, y, z: 0 },
+      handSize,
+      openness: isOpen ? OPENNESS.open : OPENNESS.fist,
+      pose: aiming ? 'point' : HAND_POSES.find(pose => this.state.poses.has(pose)) ?? null,
+      timestamp,
+    } : null;
+
+    const active: GestureName[] = [];
+    if (hand) {
+      if (!aiming) active.push(hand.isOpen ? 'open' : 'fist');
+      if (hand.isPinching) active.push('pinch');
+      active.push(...this.state.poses);
+    }
+
+    this.sink.onHandUpdate(hand);
+    this.sink.onHandsUpdate?.({ left: null, right: hand, primary: hand ? 'Right' : null, twoHand: null });
+    this.diffGestures(active, timestamp).forEach(event => this.sink?.onGestureEvent?.(event));
+  }
+
+  private diffGestures(active: GestureName[], timestamp: number): GestureEvent[] {
+    const events: GestureEvent[] = [];
+    this.activeSince.forEach((since, gesture) => {
+      if (!active.includes(gesture)) {
+        events.push({ gesture, phase: 'end', timestamp, duration: timestamp - since });
+        this.activeSince.delete(gesture);
+      }
+    });
+    active.forEach(gesture => {
+      const since = this.activeSince.get(gesture);
+      if (since === undefined) {
+        this.activeSince.set(gesture, timestamp);
+        events.push({ gesture, phase: 'start', timestamp, duration: 0 });
+      } else {
+        events.push({ gesture, phase: 'hold', timestamp, duration: timestamp - since });
+      }
+    });
+    return events;
+  }
+}
+
+// Clicks on the UI overlay shouldn't grab the "hand"
+const isUiTarget = (target: EventTarget | null) =>
+  target instanceof Element && !!target.closest('button, input, select, label, [data-ui]');
+
+// Mouse/touch: hovering = a pointing hand that only aims; press & hold = fist (drag = move), right
+// button held = open hand, wheel down or a two-finger pinch = pinch
+export class PointerInputProvider extends SyntheticHandProvider {
+  readonly source = 'pointer';
+  private touchStartDistance: number | null = null;
+  private held = false;
+  private hovering = false;
+
+  protected attach() {
+    // Until the right button says otherwise, e.g. for a wheel pinch
+    this.state.isOpen = false;
+    window.addEventListener('pointermove', this.handleMove);
+    window.addEventListener('pointerdown', this.handleDown);
+    window.addEventListener('pointerup', this.handleUp);
+    window.addEventListener('pointercancel', this.handleUp);
+    window.addEventListener('contextmenu', this.handleContextMenu);
+    document.documentElement.addEventListener('pointerleave', this.handleLeave);
+    window.addEventListener('wheel', this.handleWheel, { passive: true });
+    window.addEventListener('touchmove', this.handleTouch, { passive: true });
+    window.addEventListener('touchend', this.handleTouchEnd);
+  }
+
+  protected detach() {
+    window.removeEventListener('pointermove', this.handleMove);
+    window.removeEventListener('pointerdown', this.handleDown);
+    window.removeEventListener('pointerup', this.handleUp);
+    window.removeEventListener('pointercancel', this.handleUp);
+    window.removeEventListener('contextmenu', this.handleContextMenu);
+    document.documentElement.removeEventListener('pointerleave', this.handleLeave);
+    window.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('touchmove', this.handleTouch);
+    window.removeEventListener('touchend', this.handleTouchEnd);
+  }
+
+  // A hovering mouse points, so it can aim at photos without steering or opening the hand
+  private updatePresence() {
+    this.state.present = this.hovering || this.held || this.state.pinchDistance < PINCH_RELEASED;
+    this.state.aiming = !this.held;
+  }
+
+  private handleMove = (e: PointerEvent) => {
+    // Mirror X so moving right behaves like moving your hand right in front of the camera
+    this.state.x = 1 - e.clientX / window.innerWidth;
+    this.state.y = e.clientY / window.innerHeight;
+    // Touch has no hover: a finger only counts while it presses
+    if (e.pointerType !== 'touch' && !this.hovering) {
+      this.hovering = true;
+      this.updatePresence();
+    }
+  };
+
+  private handleDown = (e: PointerEvent) => {
+    if (isUiTarget(e.target)) return;
+    this.handleMove(e);
+    this.held = true;
+    this.state.isOpen = e.button === 2;
+    this.updatePresence();
+  };
+
+  private handleUp = () => {
+    this.held = false;
+    this.state.isOpen = false;
+    this.updatePresence();
+  };
+
+  // The right button opens the hand instead of the browser menu
+  private handleContextMenu = (e: MouseEvent) => {
+    if (!isUiTarget(e.target)) e.preventDefault();
+  };
+
+  private handleLeave = () => {
+    this.held = false;
+    this.hovering = false;
+    this.state.isOpen = false;
+    this.state.present = false;
+  };
+
+  private handleWheel = (e: WheelEvent) => {
+    // Scrolling down closes the pinch, scrolling up opens it again
+    const next = this.state.pinchDistance - e.deltaY * 0.0005;
+    this.state.pinchDistance = Math.max(0, Math.min(PINCH_RELEASED, next));
+    this.updatePresence();
+  };
+
+  private handleTouch = (e: TouchEvent) => {
+    if (e.touches.length < 2) return;
+    const [a, b] = [e.touches[0], e.touches[1]];
+    const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+    if (this.touchStartDistance === null) this.touchStartDistance = distance;
+    // Fingers moving together shrink the virtual pinch distance
+    this.state.pinchDistance = Math.min(PINCH_RELEASED, PINCH_RELEASED * distance / this.touchStartDistance);
+    // A two-finger gesture is a pinch, not a fist
+    this.state.isOpen = true;
+    this.updatePresence();
+  };
+
+  private handleTouchEnd = (e: TouchEvent) => {
+    if (e.touches.length < 2) {
+      this.touchStartDistance = null;
+      this.state.pinchDistance = PINCH_RELEASED;
+    }
+    if (e.touches.length === 0) this.handleLeave();
+    else this.updatePresence();
+  };
+}
+
+const POSE_KEYS: Record<string, GestureName> = {
+  KeyT: 'thumbsUp',
+  KeyI: 'point',
+  KeyV: 'victory',
+  KeyR: 'rockOn',
+  KeyW: 'wave',
+};
+
+// Keyboard: arrows move, Space toggles open/fist, hold P to pinch, hold T/I/V/R/W for
+// thumbs-up/point/victory/rock-on/wave, hold = / - to bring the hand closer to or further from the camera
+export class KeyboardInputProvider extends SyntheticHandProvider {
+  readonly source = 'keyboard';
+  private pressed = new Set<string>();
+  private moveFrame: number | undefined;
+  private lastMove = 0;
+
+  protected attach() {
+    this.state.present = true;
+    this.state.isOpen = false;
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    this.lastMove = performance.now();
+    this.moveFrame = requestAnimationFrame(this.move);
+  }
+
+  protected detach() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    if (this.moveFrame !== undefined) cancelAnimationFrame(this.moveFrame);
+    this.pressed.clear();
+    this.state.poses.clear();
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (isUiTarget(e.target)) return;
+    if (e.code === 'Space' && !e.repeat) this.state.isOpen = !this.state.isOpen;
+    if (e.code === 'KeyP') this.state.pinchDistance = 0;
+    if (POSE_KEYS[e.code]) this.state.poses.add(POSE_KEYS[e.code]);
+    this.pressed.add(e.code);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    if (e.code === 'KeyP') this.state.pinchDistance = PINCH_RELEASED;
+    if (POSE_KEYS[e.code]) this.state.poses.delete(POSE_KEYS[e.code]);
+    this.pressed.delete(e.code);
+  };
+
+  private move = (now: number) => {
+    const dt = (now - this.lastMove) / 1000;
+    this.lastMove = now;
+    const speed = 0.6 * dt; // Screen widths per second
+    // Mirrored like the camera: ArrowRight moves towards smaller x
+    if (this.pressed.has('ArrowLeft')) this.state.x = Math.min(1, this.state.x + speed);
+    if (this.pressed.has('ArrowRight')) this.state.x = Math.max(0, this.state.x - speed);
+    if (this.pressed.has('ArrowUp')) this.state.y = Math.max(0, this.state.y - speed);
+    if (this.pressed.has('ArrowDown')) this.state.y = Math.min(1, this.state.y + speed);
+    const [minSize, maxSize] = HAND_SIZE_RANGE;
+    if (this.pressed.has('Equal')) this.state.handSize = Math.min(maxSize, this.state.handSize * (1 + dt));
+    if (this.pressed.has('Minus')) this.state.handSize = Math.max(minSize, this.state.handSize * (1 - dt));
+    this.moveFrame = requestAnimationFrame(this.move);
+  };
+}
+
+// Plays a recorded session back through the same recognizer the camera uses, in real time.
+// Every frame is fed in order (none are skipped on slow frames) so classification matches the recording.
+export class ReplayInputProvider implements InputProvider {
+  readonly source = 'replay';
+  private session: RecordedSession;
+  private loop: boolean;
+  private recognizer = new HandsRecognizer();
+  private sink: InputSink | null = null;
+  private frame: number | undefined;
+  private startTime = 0;
+  private nextFrame = 0;
+
+  constructor(session: RecordedSession, loop = true, thresholds?: GestureThresholds) {
+    this.session = session;
+    this.loop = loop;
+    if (thresholds) this.recognizer.setThresholds(thresholds);
+  }
+
+  start(sink: InputSink) {
+    this.sink = sink;
+    this.restart();
+    this.frame = requestAnimationFrame(this.tick);
+  }
+
+  stop() {
+    if (this.frame !== undefined) cancelAnimationFrame(this.frame);
+    this.finish();
+    this.sink = null;
+  }
+
+  private restart() {
+    this.recognizer.reset();
+    this.startTime = performance.now();
+    this.nextFrame = 0;
+  }
+
+  private finish() {
+    if (!this.sink) return;
+    this.recognizer.release(performance.now()).forEach(event => this.sink?.onGestureEvent?.(event));
+    this.sink.onHandUpdate(null);
+  }
+
+  private tick = (now: number) => {
+    const { frames } = this.session;
+    const elapsed = now - this.startTime;
+
+    while (this.nextFrame < frames.length && frames[this.nextFrame].t <= elapsed) {
+      const recorded = frames[this.nextFrame++];
+      const { hands, events } = this.recognizer.update(recorded.result, this.startTime + recorded.t);
+      this.sink?.onHandUpdate(hands.primary === 'Left' ? hands.left : hands.right);
+      this.sink?.onHandsUpdate?.(hands);
+      events.forEach(event => this.sink?.onGestureEvent?.(event));
+    }
+
+    if (this.nextFrame >= frames.length) {
+      this.finish();
+      if (!this.loop) return;
+      this.restart();
+    }
+    this.frame = requestAnimationFrame(this.tick);
+  };
+}
+
+export const createInputProvider = (source: 'pointer' | 'keyboard'): InputProvider =>
+  source === 'pointer' ? new PointerInputProvider() : new KeyboardInputProvider();
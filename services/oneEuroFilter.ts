@@ -0,0 +1,92 @@
+// One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with speed,
+// so slow hand jitter is smoothed heavily while fast, deliberate motion stays responsive.
+
+export interface OneEuroFilterOptions {
+  minCutoff: number; // Hz, lower = smoother at rest
+  beta: number; // How quickly the cutoff grows with speed
+  dCutoff: number; // Hz, cutoff for the derivative estimate
+}
+
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroFilterOptions = {
+  minCutoff: 1.5,
+  beta: 0.5,
+  dCutoff: 1.0,
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export class OneEuroFilter {
+  private options: OneEuroFilterOptions;
+  private prevValue: number | null = null;
+  private prevDerivative = 0;
+  private prevTimeMs: number | null = null;
+
+  constructor(options: OneEuroFilterOptions = DEFAULT_ONE_EURO_OPTIONS) {
+    this.options = options;
+  }
+
+  filter(value: number, timestampMs: number): number {
+    if (this.prevValue === null || this.prevTimeMs === null || timestampMs <= this.prevTimeMs) {
+      this.prevValue = value;
+      this.prevTimeMs = timestampMs;
+      return value;
+    }
+
+    const dt = (timestampMs - this.prevTimeMs) / 1000;
+    const { minCutoff, beta, dCutoff } = this.options;
+
+    const derivative = (value - this.prevValue) / dt;
+    const aD = smoothingFactor(dCutoff, dt);
+    const smoothedDerivative = aD * derivative + (1 - aD) * this.prevDerivative;
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const a = smoothingFactor(cutoff, dt);
+    const smoothed = a * value + (1 - a) * this.prevValue;
+
+    this.prevValue = smoothed;
+    this.prevDerivative = smoothedDerivative;
+    this.prevTimeMs = timestampMs;
+    return smoothed;
+  }
+
+  reset() {
+    this.prevValue = null;
+    this.prevDerivative = 0;
+    this.prevTimeMs = null;
+  }
+}
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Smooths every coordinate of a landmark set with its own One Euro filter
+export class LandmarkSmoother {
+  private filters: OneEuroFilter[] = [];
+  private options: OneEuroFilterOptions;
+
+  constructor(options: OneEuroFilterOptions = DEFAULT_ONE_EURO_OPTIONS) {
+    this.options = options;
+  }
+
+  smooth(landmarks: Landmark[], timestampMs: number): Landmark[] {
+    while (this.filters.length < landmarks.length * 3) {
+      this.filters.push(new OneEuroFilter(this.options));
+    }
+
+    return landmarks.map((lm, i) => ({
+      x: this.filters[i * 3].filter(lm.x, timestampMs),
+      y: this.filters[i * 3 + 1].filter(lm.y, timestampMs),
+      z: this.filters[i * 3 + 2].filter(lm.z, timestampMs),
+    }));
+  }
+
+  reset() {
+    this.filters.forEach(f => f.reset());
+  }
+}
@@ -0,0 +1,120 @@
+// Rolling render and hand-detection timings. The frame loop and HandTracker feed it;
+// the adaptive quality manager and the stats readout read it.
+
+export interface PerformanceStats {
+  fps: number; // Rendered frames per second
+  frameMs: number;
+  refreshRate: number | null; // A standard display rate the fastest frames match, null until one does
+  detectionMs: number | null; // Average time one hand detection takes, null without a camera
+  detectionFps: number | null; // How often detection actually ran
+  detectionInWorker: boolean; // Detection runs off the main thread, so its time doesn't cost render frames
+}
+
+// Frames longer than this are the tab being hidden or a breakpoint, not a slow GPU
+const MAX_FRAME_SECONDS = 0.5;
+const FRAME_SAMPLES = 120;
+const DETECTION_SAMPLES = 30;
+// Detection counts as stopped (e.g. switched to mouse input) when nothing came in for this long
+const DETECTION_STALE_MS = 2000;
+// rAF never runs faster than the display refreshes, so the quickest frames of a full window show its
+// refresh interval. A low percentile rather than the minimum, so the odd early callback doesn't count.
+const REFRESH_PERCENTILE = 0.1;
+// Only these count as a display's rate. A slow machine's own frame rate (say a steady 30 fps on a
+// 60 Hz screen) matches none of them, so it can never pass for the display's rate.
+const DISPLAY_RATES = [50, 60, 75, 90, 120, 144];
+const DISPLAY_RATE_TOLERANCE = 0.03;
+
+const snapToDisplayRate = (rate: number): number | null =>
+  DISPLAY_RATES.find(display => Math.abs(rate - display) <= display * DISPLAY_RATE_TOLERANCE) ?? null;
+
+// Fixed-size ring of the most recent values
+class RollingWindow {
+  private values: Float64Array;
+  private next = 0;
+  count = 0;
+
+  constructor(size: number) {
+    this.values = new Float64Array(size);
+  }
+
+  push(value: number) {
+    this.values[this.next] = value;
+    this.next = (this.next + 1) % this.values.length;
+    this.count = Math.min(this.count + 1, this.values.length);
+  }
+
+  // Value below which this share of the window lies
+  percentile(share: number): number {
+    if (this.count === 0) return 0;
+    const sorted = Array.from(this.values.subarray(0, this.count)).sort((a, b) => a - b);
+    return sorted[Math.floor(share * (this.count - 1))];
+  }
+
+  average(): number {
+    if (this.count === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < this.count; i++) sum += this.values[i];
+    return sum / this.count;
+  }
+
+  // Oldest value still in the window
+  oldest(): number {
+    return this.values[this.count < this.values.length ? 0 : this.next];
+  }
+
+  clear() {
+    this.next = 0;
+    this.count = 0;
+  }
+}
+
+export class PerformanceMonitor {
+  private frames = new RollingWindow(FRAME_SAMPLES);
+  private detections = new RollingWindow(DETECTION_SAMPLES);
+  private detectionTimes = new RollingWindow(DETECTION_SAMPLES);
+  private lastDetection = -Infinity;
+  private detectionInWorker = false;
+  // Fastest display rate matched so far; a slow tier can only make frames longer, never shorter
+  private refreshRate: number | null = null;
+
+  recordFrame(deltaSeconds: number) {
+    if (deltaSeconds > 0 && deltaSeconds < MAX_FRAME_SECONDS) this.frames.push(deltaSeconds * 1000);
+  }
+
+  recordDetection(durationMs: number, timestamp: number, inWorker = false) {
+    this.detectionInWorker = inWorker;
+    this.detections.push(durationMs);
+    this.detectionTimes.push(timestamp);
+    this.lastDetection = timestamp;
+  }
+
+  // Enough frames to judge by, e.g. after a quality change cleared the window
+  get sampleCount(): number {
+    return this.frames.count;
+  }
+
+  stats(now = performance.now()): PerformanceStats {
+    const frameMs = this.frames.average();
+    if (this.frames.count === FRAME_SAMPLES) {
+      const display = snapToDisplayRate(1000 / this.frames.percentile(REFRESH_PERCENTILE));
+      if (display !== null) this.refreshRate = Math.max(this.refreshRate ?? 0, display);
+    }
+    const detecting = now - this.lastDetection < DETECTION_STALE_MS && this.detections.count > 1;
+    const span = now - this.detectionTimes.oldest();
+    return {
+      fps: frameMs > 0 ? 1000 / frameMs : 0,
+      frameMs,
+      refreshRate: this.refreshRate,
+      detectionMs: detecting ? this.detections.average() : null,
+      detectionFps: detecting && span > 0 ? (this.detectionTimes.count * 1000) / span : null,
+      detectionInWorker: this.detectionInWorker,
+    };
+  }
+
+  // Forget frame timings, e.g. after the quality changed so old frames don't count against the new tier
+  resetFrames() {
+    this.frames.clear();
+  }
+}
+
+export const performanceMonitor = new PerformanceMonitor();
@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import { PhotoData, TransitionType } from '../types';
+import { DecodedImage } from './imageDecoder';
+
+// What we keep per photo in IndexedDB: the original file plus its metadata
+export interface StoredPhoto {
+  id: string;
+  blob: Blob;
+  transitionType: TransitionType;
+  order: number;
+  caption: string;
+  date?: string;
+}
+
+export type StoredPhotoPatch = Partial<Omit<StoredPhoto, 'id' | 'blob'>> & { id: string };
+
+export interface PhotoStoreOptions {
+  dbName: string;
+  maxBytes: number; // Total size of stored originals we allow before refusing new uploads
+}
+
+const DB_VERSION = 1;
+const STORE_NAME = 'photos';
+const MB = 1024 * 1024;
+
+export const DEFAULT_PHOTO_STORE_OPTIONS: PhotoStoreOptions = {
+  dbName: 'winter-magic',
+  maxBytes: (Number(import.meta.env.VITE_PHOTO_QUOTA_MB) || 250) * MB,
+};
+
+export class PhotoQuotaExceededError extends Error {
+  constructor(usedBytes: number, requestedBytes: number, maxBytes: number) {
+    super(
+      `Not enough photo storage: ${(requestedBytes / MB).toFixed(1)} MB more would exceed the ` +
+      `${(maxBytes / MB).toFixed(0)} MB limit (${(usedBytes / MB).toFixed(1)} MB used). Remove some photos first.`
+    );
+    this.name = 'PhotoQuotaExceededError';
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const isBrowserQuotaError = (err: unknown) => err instanceof DOMException && err.name === 'QuotaExceededError';
+
+export class PhotoStore {
+  private options: PhotoStoreOptions;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: Partial<PhotoStoreOptions> = {}) {
+    this.options = { ...DEFAULT_PHOTO_STORE_OPTIONS, ...options };
+  }
+
+  get maxBytes(): number {
+    return this.options.maxBytes;
+  }
+
+  async loadAll(): Promise<StoredPhoto[]> {
+    const db = await this.open();
+    const records = await promisify<StoredPhoto[]>(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+    return records.sort((a, b) => a.order - b.order);
+  }
+
+  async usage(): Promise<number> {
+    const records = await this.loadAll();
+    return records.reduce((total, r) => total + r.blob.size, 0);
+  }
+
+  // Saves new photos, refusing the whole batch if it would go over the quota
+  async add(photos: StoredPhoto[]): Promise<void> {
+    const used = await this.usage();
+    const requested = photos.reduce((total, p) => total + p.blob.size, 0);
+    if (used + requested > this.options.maxBytes) {
+      throw new PhotoQuotaExceededError(used, requested, this.options.maxBytes);
+    }
+    await this.write(photos);
+  }
+
+  // Swaps everything stored for `photos` in one transaction, e.g. when importing a scene
+  async replaceAll(photos: StoredPhoto[]): Promise<void> {
+    const requested = photos.reduce((total, p) => total + p.blob.size, 0);
+    if (requested > this.options.maxBytes) {
+      throw new PhotoQuotaExceededError(0, requested, this.options.maxBytes);
+    }
+    await this.write(photos, true);
+  }
+
+  // Updates metadata (order, caption, transition, ...) of photos that are already stored
+  async update(patches: StoredPhotoPatch[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    patches.forEach(patch => {
+      const request = store.get(patch.id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, ...patch });
+      };
+    });
+    await transactionDone(tx);
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(id);
+    await transactionDone(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    await transactionDone(tx);
+  }
+
+  private async write(photos: StoredPhoto[], replace = false) {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    if (replace) store.clear();
+    photos.forEach(p => store.put(p));
+    try {
+      await transactionDone(tx);
+    } catch (err) {
+      // The browser's own storage limit can be hit before ours
+      if (isBrowserQuotaError(err)) {
+        throw new PhotoQuotaExceededError(await this.usage(), photos.reduce((t, p) => t + p.blob.size, 0), this.options.maxBytes);
+      }
+      throw err;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.options.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+export const photoStore = new PhotoStore();
+
+// Turns a stored blob into something the scene can list. The texture follows once the image is decoded.
+export const createPhotoData = (record: StoredPhoto): PhotoData => {
+  const url = URL.createObjectURL(record.blob);
+  return {
+    id: record.id,
+    url,
+    status: 'loading',
+    transitionType: record.transitionType,
+    order: record.order,
+    // Photos saved before captions existed have neither field
+    caption: record.caption ?? '',
+    date: record.date,
+  };
+};
+
+// Mipmapped texture for a decoded photo. The bitmap is already flipped, see decodeImage.
+export const createPhotoTexture = ({ bitmap }: DecodedImage): THREE.Texture => {
+  const texture = new THREE.Texture(bitmap);
+  texture.flipY = false;
+  texture.generateMipmaps = true;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.anisotropy = 4;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Frees the object URL, GPU texture and decoded bitmap behind a photo that is no longer shown
+export const releasePhotoData = (photo: PhotoData) => {
+  URL.revokeObjectURL(photo.url);
+  photo.texture?.dispose();
+  const image: unknown = photo.texture?.image;
+  if (image instanceof ImageBitmap) image.close();
+};
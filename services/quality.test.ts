@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { PerformanceMonitor } from './performanceMonitor';
+import { AdaptiveQuality, DEFAULT_ADAPTIVE_QUALITY_OPTIONS } from './quality';
+
+// Feeds the monitor a steady frame rate and returns the stats it reports
+const steadyFrames = (fps: number, frames = 150) => {
+  const monitor = new PerformanceMonitor();
+  for (let i = 0; i < frames; i++) monitor.recordFrame(1 / fps);
+  return { stats: monitor.stats(0), samples: monitor.sampleCount };
+};
+
+describe('AdaptiveQuality.evaluate', () => {
+  it('steps down on a uniform 30 fps, which is no display rate', () => {
+    const { stats, samples } = steadyFrames(30);
+    const quality = new AdaptiveQuality();
+
+    expect(stats.refreshRate).toBeNull();
+    expect(quality.evaluate(stats, samples, 0)).toBe(true);
+    expect(quality.tierIndex).toBe(1);
+  });
+
+  it('keeps the tier of a 50 Hz display running at full speed', () => {
+    const { stats, samples } = steadyFrames(50);
+    const quality = new AdaptiveQuality();
+
+    expect(stats.refreshRate).toBe(50);
+    expect(quality.evaluate(stats, samples, 0)).toBe(false);
+    expect(quality.tierIndex).toBe(0);
+  });
+
+  it('waits for enough frames before judging', () => {
+    const { stats } = steadyFrames(30);
+    const quality = new AdaptiveQuality();
+
+    expect(quality.evaluate(stats, DEFAULT_ADAPTIVE_QUALITY_OPTIONS.minSamples - 1, 0)).toBe(false);
+    expect(quality.tierIndex).toBe(0);
+  });
+});
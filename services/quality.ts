@@ -0,0 +1,97 @@
+// Quality tiers and the controller that steps between them from measured performance.
+import { PerformanceStats } from './performanceMonitor';
+
+export interface QualityTier {
+  id: string;
+  label: string;
+  particleScale: number; // Share of the theme's particle count that is drawn
+  dpr: [number, number]; // Canvas pixel ratio range, see @react-three/fiber's `dpr`
+  bloom: boolean; // Allow Bloom (still subject to the theme)
+  stars: number;
+  sparkles: number;
+  snowflakes: number; // Flake budget for the heaviest snow preset
+  detectionFps: number; // Hand detection rate, independent of the render rate
+}
+
+// Best first. Ultra is what the app always used to render.
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'ultra', label: 'Ultra', particleScale: 1, dpr: [1, 2], bloom: true, stars: 5000, sparkles: 100, snowflakes: 12000, detectionFps: 30 },
+  { id: 'high', label: 'High', particleScale: 1, dpr: [1, 1.5], bloom: true, stars: 4000, sparkles: 80, snowflakes: 8000, detectionFps: 30 },
+  { id: 'medium', label: 'Medium', particleScale: 0.6, dpr: [1, 1.25], bloom: true, stars: 2500, sparkles: 50, snowflakes: 5000, detectionFps: 20 },
+  { id: 'low', label: 'Low', particleScale: 0.35, dpr: [1, 1], bloom: false, stars: 1000, sparkles: 25, snowflakes: 2500, detectionFps: 15 },
+  { id: 'minimal', label: 'Minimal', particleScale: 0.2, dpr: [0.75, 0.75], bloom: false, stars: 300, sparkles: 10, snowflakes: 800, detectionFps: 10 },
+];
+
+// 'auto' lets AdaptiveQuality choose; anything else pins a tier by id
+export type QualityMode = 'auto' | string;
+
+export interface AdaptiveQualityOptions {
+  // Measured against the display's refresh rate, since rAF can't run faster than that:
+  // a 30 Hz or 50 Hz display at full speed is as smooth as it gets
+  minFrameRatio: number; // Step down below this share of the refresh rate
+  upgradeFrameRatio: number; // Consider stepping up above this share
+  fallbackRefreshRate: number; // Assumed unless the frames match a standard display rate
+  maxDetectionLoad: number; // Step down when detection takes more than this share of each second
+  minSamples: number; // Frames to wait for after a change before judging the new tier
+  upgradeAfterMs: number; // How long things must stay smooth before stepping up
+  upgradeBackoffMs: number; // After stepping down, don't try the tier above again for this long
+}
+
+export const DEFAULT_ADAPTIVE_QUALITY_OPTIONS: AdaptiveQualityOptions = {
+  minFrameRatio: 0.75,
+  upgradeFrameRatio: 0.95,
+  fallbackRefreshRate: 60,
+  maxDetectionLoad: 0.35,
+  minSamples: 90,
+  upgradeAfterMs: 10000,
+  upgradeBackoffMs: 30000,
+};
+
+export class AdaptiveQuality {
+  tierIndex = 0;
+  private options: AdaptiveQualityOptions;
+  private smoothSince: number | null = null;
+  private lastDowngrade = -Infinity;
+
+  constructor(options: AdaptiveQualityOptions = DEFAULT_ADAPTIVE_QUALITY_OPTIONS) {
+    this.options = options;
+  }
+
+  // Call periodically. Returns true when the tier changed.
+  evaluate(stats: PerformanceStats, samples: number, now: number): boolean {
+    const { minFrameRatio, upgradeFrameRatio, fallbackRefreshRate, maxDetectionLoad, minSamples, upgradeAfterMs, upgradeBackoffMs } = this.options;
+    if (samples < minSamples) return false;
+    const refreshRate = stats.refreshRate ?? fallbackRefreshRate;
+    const minFps = refreshRate * minFrameRatio;
+    const upgradeFps = refreshRate * upgradeFrameRatio;
+
+    // Detection in the worker doesn't take time from rendering, so only the frame rate counts then
+    const detectionLoad = stats.detectionMs !== null && stats.detectionFps !== null && !stats.detectionInWorker
+      ? (stats.detectionMs * stats.detectionFps) / 1000
+      : 0;
+
+    if ((stats.fps < minFps || detectionLoad > maxDetectionLoad) && this.tierIndex < QUALITY_TIERS.length - 1) {
+      this.tierIndex++;
+      this.lastDowngrade = now;
+      this.smoothSince = null;
+      return true;
+    }
+
+    if (stats.fps < upgradeFps || detectionLoad > maxDetectionLoad / 2) {
+      this.smoothSince = null;
+      return false;
+    }
+    this.smoothSince ??= now;
+    if (this.tierIndex > 0 && now - this.smoothSince >= upgradeAfterMs && now - this.lastDowngrade >= upgradeBackoffMs) {
+      this.tierIndex--;
+      this.smoothSince = null;
+      return true;
+    }
+    return false;
+  }
+}
+
+export const tieredParticleCount = (count: number, tier: QualityTier) => Math.max(1, Math.round(count * tier.particleScale));
+
+// Flakes drawn for a snow preset's density (0-1) at this tier
+export const tieredSnowflakeCount = (density: number, tier: QualityTier) => Math.round(tier.snowflakes * density);
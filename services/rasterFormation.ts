@@ -0,0 +1,158 @@
+// Turns text or a simple image/logo into a formation by rasterizing it to a mask
+// and sampling particle targets from the "ink" pixels.
+import { Formation, registerFormation } from './formations';
+
+export interface InkMask {
+  width: number;
+  height: number;
+  ink: Uint8Array; // 1 where the shape is, row-major
+}
+
+// Largest size of the shape in scene units; the camera sees roughly 35 x 20 at the tree
+const MAX_WIDTH = 22;
+const MAX_HEIGHT = 12;
+// Raise the shape a little since the particle group sits 2 units below the centre of the view
+const Y_OFFSET = 2;
+const RASTER_SIZE = 512;
+const MAX_CHARS_PER_LINE = 16;
+
+const wrapText = (text: string): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      if (line && (line + ' ' + word).length > MAX_CHARS_PER_LINE) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+    if (line) lines.push(line);
+  });
+  return lines;
+};
+
+const maskFromCanvas = (canvas: HTMLCanvasElement, isInk: (r: number, g: number, b: number, a: number) => boolean): InkMask => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  const { width, height } = canvas;
+  const ink = new Uint8Array(width * height);
+  if (!ctx) return { width, height, ink };
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  for (let i = 0; i < width * height; i++) {
+    ink[i] = isInk(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2], pixels[i * 4 + 3]) ? 1 : 0;
+  }
+  return { width, height, ink };
+};
+
+export const rasterizeText = (text: string): InkMask => {
+  const lines = wrapText(text);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const fontSize = 96;
+  const font = `bold ${fontSize}px 'Inter', sans-serif`;
+  const lineHeight = fontSize * 1.15;
+
+  let width = 1;
+  if (ctx) {
+    ctx.font = font;
+    width = Math.max(1, ...lines.map(line => Math.ceil(ctx.measureText(line).width)));
+  }
+  canvas.width = width + fontSize / 2;
+  canvas.height = Math.max(1, Math.ceil(lines.length * lineHeight + fontSize / 2));
+
+  const draw = canvas.getContext('2d');
+  if (draw) {
+    draw.font = font;
+    draw.fillStyle = '#ffffff';
+    draw.textAlign = 'center';
+    draw.textBaseline = 'middle';
+    lines.forEach((line, i) => {
+      draw.fillText(line, canvas.width / 2, fontSize / 4 + lineHeight * (i + 0.5));
+    });
+  }
+
+  return maskFromCanvas(canvas, (_r, _g, _b, a) => a > 128);
+};
+
+// Logos with transparency use their alpha channel; opaque images use whatever differs from the corners
+export const rasterizeImage = (image: CanvasImageSource & { width: number; height: number }): InkMask => {
+  const scale = Math.min(1, RASTER_SIZE / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { width: canvas.width, height: canvas.height, ink: new Uint8Array(canvas.width * canvas.height) };
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const luminance = (r: number, g: number, b: number) => (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  const corners = [[0, 0], [canvas.width - 1, 0], [0, canvas.height - 1], [canvas.width - 1, canvas.height - 1]]
+    .map(([x, y]) => ctx.getImageData(x, y, 1, 1).data);
+  const transparentBackground = corners.some(c => c[3] < 128);
+  const backgroundLuminance = corners.reduce((sum, c) => sum + luminance(c[0], c[1], c[2]), 0) / corners.length;
+
+  return maskFromCanvas(canvas, (r, g, b, a) => {
+    if (a < 128) return false;
+    return transparentBackground || Math.abs(luminance(r, g, b) - backgroundLuminance) > 0.25;
+  });
+};
+
+// Picks `count` target positions from a mask. The sampling grid is chosen from the amount of ink
+// so that roughly one cell per particle is used, whatever PARTICLE_COUNT is.
+export const sampleMask = (mask: InkMask, count: number): Float32Array => {
+  const { width, height, ink } = mask;
+  const positions = new Float32Array(count * 3);
+
+  let inkPixels = 0;
+  for (let i = 0; i < ink.length; i++) inkPixels += ink[i];
+  if (inkPixels === 0 || count === 0) return positions;
+
+  const step = Math.max(1, Math.sqrt(inkPixels / count));
+  const cells: [number, number][] = [];
+  for (let y = step / 2; y < height; y += step) {
+    for (let x = step / 2; x < width; x += step) {
+      if (ink[Math.floor(y) * width + Math.floor(x)]) cells.push([x, y]);
+    }
+  }
+  // Shuffle so that dropping or repeating cells doesn't favour one side of the shape
+  for (let i = cells.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [cells[i], cells[j]] = [cells[j], cells[i]];
+  }
+
+  const unit = Math.min(MAX_WIDTH / width, MAX_HEIGHT / height);
+  for (let i = 0; i < count; i++) {
+    const [x, y] = cells[i % cells.length];
+    // Particles beyond the number of cells reuse one with a little jitter
+    const spread = i >= cells.length ? step : 0;
+    positions[i * 3] = (x - width / 2 + (Math.random() - 0.5) * spread) * unit;
+    positions[i * 3 + 1] = (height / 2 - y + (Math.random() - 0.5) * spread) * unit + Y_OFFSET;
+    positions[i * 3 + 2] = (Math.random() - 0.5) * 0.4;
+  }
+  return positions;
+};
+
+export const MESSAGE_FORMATION_ID = 'message';
+
+// Registers (or replaces) the single user-made message formation
+export const registerMaskFormation = (mask: InkMask, label: string): Formation => {
+  const formation: Formation = {
+    id: MESSAGE_FORMATION_ID,
+    label,
+    generate: (count) => sampleMask(mask, count),
+  };
+  registerFormation(formation);
+  return formation;
+};
+
+export const createTextFormation = (text: string) => registerMaskFormation(rasterizeText(text), `“${text.trim()}”`);
+
+export const createImageFormation = async (file: Blob, label = 'Image') => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return registerMaskFormation(rasterizeImage(bitmap), label);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PhotoData } from '../types';
+import { DEFAULT_SCENE_CONFIG } from './sceneConfig';
+import { BUNDLE_VERSION, exportSceneBundle, importSceneBundle, SceneBundleError } from './sceneBundle';
+
+const MAGIC = 'WINTERMAGIC';
+
+// Lays out an archive by hand, so tests can write manifests the exporter never would
+const buildArchive = (manifest: unknown, data: Uint8Array = new Uint8Array()) => {
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(MAGIC.length + 4);
+  header.set(new TextEncoder().encode(MAGIC));
+  new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length, true);
+  return new Blob([header, manifestBytes, data]);
+};
+
+const manifestWith = (photos: unknown[], version = BUNDLE_VERSION) =>
+  ({ version, createdAt: '2025-01-01T00:00:00.000Z', config: DEFAULT_SCENE_CONFIG, photos });
+
+const photo = (id: string, bytes: number[], overrides: Partial<PhotoData> = {}): PhotoData => ({
+  id,
+  url: `data:image/png;base64,${Buffer.from(bytes).toString('base64')}`,
+  status: 'ready',
+  transitionType: 'spin',
+  order: 0,
+  caption: '',
+  ...overrides,
+});
+
+const bytesOf = async (blob: Blob) => Array.from(new Uint8Array(await blob.arrayBuffer()));
+
+describe('importSceneBundle', () => {
+  beforeEach(() => {
+    // Small images are kept byte for byte, so the exporter only needs their size
+    vi.stubGlobal('createImageBitmap', async () => ({ width: 4, height: 4, close: () => {} }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads back what exportSceneBundle wrote', async () => {
+    const config = { ...DEFAULT_SCENE_CONFIG, tree: { ...DEFAULT_SCENE_CONFIG.tree, height: 9 } };
+    const photos = [
+      photo('a', [1, 2, 3], { caption: 'First snow', date: '2024-12-24' }),
+      photo('b', [4, 5], { transitionType: 'fade' }),
+    ];
+
+    const bundle = await importSceneBundle(await exportSceneBundle(config, photos));
+
+    expect(bundle.config).toEqual(config);
+    expect(bundle.photos.map(({ blob, ...rest }) => rest)).toEqual([
+      { id: 'a', transitionType: 'spin', order: 0, caption: 'First snow', date: '2024-12-24' },
+      { id: 'b', transitionType: 'fade', order: 1, caption: '', date: undefined },
+    ]);
+    expect(await bytesOf(bundle.photos[0].blob)).toEqual([1, 2, 3]);
+    expect(await bytesOf(bundle.photos[1].blob)).toEqual([4, 5]);
+    expect(bundle.photos[0].blob.type).toBe('image/png');
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(importSceneBundle(new Blob(['{"version": 1}']))).rejects.toThrow('This is not a .wintermagic file.');
+  });
+
+  it('rejects a header cut off before the manifest length', async () => {
+    await expect(importSceneBundle(new Blob([MAGIC, new Uint8Array([1, 0])]))).rejects.toThrow(SceneBundleError);
+  });
+
+  it('rejects a manifest longer than the file', async () => {
+    const archive = await buildArchive(manifestWith([])).arrayBuffer();
+    const truncated = new Blob([archive.slice(0, archive.byteLength - 5)]);
+
+    await expect(importSceneBundle(truncated)).rejects.toThrow('The archive is truncated.');
+  });
+
+  it('rejects a photo whose image lies outside the image data', async () => {
+    const archive = buildArchive(
+      manifestWith([{ id: 'a', caption: '', transitionType: 'spin', image: { offset: 2, length: 4, type: 'image/png' } }]),
+      new Uint8Array([1, 2, 3, 4]),
+    );
+
+    await expect(importSceneBundle(archive)).rejects.toThrow(
+      'Photo 1 in the archive is invalid: image data is missing or out of range.'
+    );
+  });
+
+  it('rejects other format versions', async () => {
+    await expect(importSceneBundle(buildArchive(manifestWith([], BUNDLE_VERSION + 1)))).rejects.toThrow(
+      `This archive uses format version ${BUNDLE_VERSION + 1}, but this app reads version ${BUNDLE_VERSION}.`
+    );
+  });
+});
@@ -0,0 +1,172 @@
+// .wintermagic archives: the whole scene (config plus ordered photos and their images) in one file,
+// for moving a prepared tree to another machine.
+//
+// Layout: MAGIC | manifest length (uint32, little endian) | manifest JSON (UTF-8) | image bytes.
+// Each photo in the manifest points at its image by offset/length into the image bytes.
+import { PhotoData, TransitionType } from '../types';
+import { SceneConfig, SceneConfigError, validateSceneConfig } from './sceneConfig';
+import { StoredPhoto } from './photoStore';
+
+export const BUNDLE_EXTENSION = '.wintermagic';
+export const BUNDLE_VERSION = 1;
+
+const MAGIC = 'WINTERMAGIC';
+// Longest image side kept in an archive; bigger photos are scaled down and re-encoded
+const MAX_IMAGE_SIZE = 2048;
+const JPEG_QUALITY = 0.88;
+
+interface BundlePhoto {
+  id: string;
+  caption: string;
+  date?: string;
+  transitionType: TransitionType;
+  image: { offset: number; length: number; type: string };
+}
+
+interface BundleManifest {
+  version: number;
+  createdAt: string;
+  config: SceneConfig;
+  photos: BundlePhoto[]; // In display order
+}
+
+export interface SceneBundle {
+  config: SceneConfig;
+  photos: StoredPhoto[];
+}
+
+export class SceneBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneBundleError';
+  }
+}
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 255) return true;
+  }
+  return false;
+};
+
+// Shrinks images above MAX_IMAGE_SIZE. Smaller ones are kept byte for byte.
+const prepareImage = async (blob: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height);
+    if (scale >= 1) return blob;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return blob;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // Keep PNG for images that rely on transparency, JPEG for everything else
+    const type = blob.type !== 'image/jpeg' && hasTransparency(ctx, canvas.width, canvas.height) ? 'image/png' : 'image/jpeg';
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(result => (result ? resolve(result) : reject(new Error("Image could not be encoded"))), type, JPEG_QUALITY);
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const exportSceneBundle = async (config: SceneConfig, photos: PhotoData[]): Promise<Blob> => {
+  const images: Blob[] = [];
+  const entries: BundlePhoto[] = [];
+  let offset = 0;
+
+  for (const photo of photos) {
+    const original = await (await fetch(photo.url)).blob();
+    const image = await prepareImage(original);
+    entries.push({
+      id: photo.id,
+      caption: photo.caption,
+      date: photo.date,
+      transitionType: photo.transitionType,
+      image: { offset, length: image.size, type: image.type || 'image/jpeg' },
+    });
+    images.push(image);
+    offset += image.size;
+  }
+
+  const manifest: BundleManifest = { version: BUNDLE_VERSION, createdAt: new Date().toISOString(), config, photos: entries };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(MAGIC.length + 4);
+  header.set(new TextEncoder().encode(MAGIC));
+  new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length, true);
+
+  return new Blob([header, manifestBytes, ...images], { type: 'application/octet-stream' });
+};
+
+const checkPhoto = (value: unknown, index: number, dataLength: number): BundlePhoto => {
+  const p = value as Partial<BundlePhoto> | null;
+  const fail = (problem: string): never => {
+    throw new SceneBundleError(`Photo ${index + 1} in the archive is invalid: ${problem}.`);
+  };
+  if (!p || typeof p !== 'object') fail('not an object');
+  if (typeof p!.id !== 'string' || !p!.id) fail('missing id');
+  if (typeof p!.caption !== 'string') fail('caption must be text');
+  if (p!.date !== undefined && typeof p!.date !== 'string') fail('date must be text');
+  // Unknown transitions are kept as they are (they may be registered later) and play the default meanwhile
+  if (typeof p!.transitionType !== 'string' || !p!.transitionType) fail('missing transition');
+  const image = p!.image;
+  if (!image || !Number.isInteger(image.offset) || !Number.isInteger(image.length) || image.offset < 0 || image.length <= 0
+    || image.offset + image.length > dataLength || typeof image.type !== 'string' || !image.type.startsWith('image/')) {
+    fail('image data is missing or out of range');
+  }
+  return p as BundlePhoto;
+};
+
+export const importSceneBundle = async (file: Blob): Promise<SceneBundle> => {
+  const buffer = await file.arrayBuffer();
+  const headerLength = MAGIC.length + 4;
+  if (buffer.byteLength < headerLength || new TextDecoder().decode(buffer.slice(0, MAGIC.length)) !== MAGIC) {
+    throw new SceneBundleError(`This is not a ${BUNDLE_EXTENSION} file.`);
+  }
+
+  const manifestLength = new DataView(buffer).getUint32(MAGIC.length, true);
+  const dataStart = headerLength + manifestLength;
+  if (dataStart > buffer.byteLength) throw new SceneBundleError("The archive is truncated.");
+
+  let manifest: Partial<BundleManifest>;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(buffer.slice(headerLength, dataStart)));
+  } catch {
+    throw new SceneBundleError("The archive's contents list is damaged.");
+  }
+
+  if (manifest.version !== BUNDLE_VERSION) {
+    throw new SceneBundleError(
+      `This archive uses format version ${String(manifest.version)}, but this app reads version ${BUNDLE_VERSION}.`
+    );
+  }
+  if (!Array.isArray(manifest.photos)) throw new SceneBundleError("The archive has no photo list.");
+
+  let config: SceneConfig;
+  try {
+    config = validateSceneConfig(manifest.config);
+  } catch (err) {
+    if (err instanceof SceneConfigError) throw new SceneBundleError(`The archive's scene settings are invalid.\n${err.message}`);
+    throw err;
+  }
+
+  const dataLength = buffer.byteLength - dataStart;
+  const photos: StoredPhoto[] = manifest.photos.map((value, order) => {
+    const entry = checkPhoto(value, order, dataLength);
+    const start = dataStart + entry.image.offset;
+    return {
+      id: entry.id,
+      blob: new Blob([buffer.slice(start, start + entry.image.length)], { type: entry.image.type }),
+      transitionType: entry.transitionType,
+      order,
+      caption: entry.caption,
+      date: entry.date,
+    };
+  });
+
+  return { config, photos };
+};
@@ -0,0 +1,178 @@
+// PNG snapshots and WebM recordings of the scene canvas, optionally with the webcam
+// preview and a caption burned in, and the music mixed into the video.
+import { audioAnalyser } from './audioAnalyser';
+
+export interface CaptureSources {
+  canvas: HTMLCanvasElement; // The WebGL canvas (needs preserveDrawingBuffer for snapshots)
+  webcam?: HTMLVideoElement | null;
+}
+
+export interface CaptureOptions {
+  burnInWebcam: boolean;
+  caption: string;
+  includeAudio: boolean;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+  burnInWebcam: false,
+  caption: '',
+  includeAudio: true,
+};
+
+export class CaptureUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureUnsupportedError';
+  }
+}
+
+const RECORDING_FPS = 30;
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+// Draws one frame of the capture: the scene, then the overlays on top
+const composeFrame = (ctx: CanvasRenderingContext2D, sources: CaptureSources, options: CaptureOptions) => {
+  const { width, height } = ctx.canvas;
+  ctx.drawImage(sources.canvas, 0, 0, width, height);
+
+  const video = sources.webcam;
+  if (options.burnInWebcam && video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+    // Bottom-right like the on-screen preview, mirrored the same way
+    const w = Math.round(width * 0.2);
+    const h = Math.round(w * (video.videoHeight / video.videoWidth || 0.75));
+    const margin = Math.round(width * 0.015);
+    const x = width - w - margin;
+    const y = height - h - margin;
+    ctx.save();
+    ctx.translate(x + w, y);
+    ctx.scale(-1, 1);
+    ctx.drawImage(video, 0, 0, w, h);
+    ctx.restore();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.lineWidth = Math.max(2, width / 500);
+    ctx.strokeRect(x, y, w, h);
+  }
+
+  const caption = options.caption.trim();
+  if (caption) {
+    const fontSize = Math.round(height * 0.05);
+    ctx.save();
+    ctx.font = `300 ${fontSize}px 'Inter', sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    ctx.shadowBlur = fontSize / 3;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(caption, width / 2, height - fontSize, width * 0.9);
+    ctx.restore();
+  }
+};
+
+const createCompositor = (sources: CaptureSources) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = sources.canvas.width;
+  canvas.height = sources.canvas.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new CaptureUnsupportedError("This browser cannot draw the capture canvas.");
+  return { canvas, ctx };
+};
+
+export const takeSnapshot = (sources: CaptureSources, options: CaptureOptions): Promise<Blob> => {
+  const { canvas, ctx } = createCompositor(sources);
+  composeFrame(ctx, sources, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Snapshot could not be encoded"))), 'image/png');
+  });
+};
+
+export class SceneRecorder {
+  private recorder: MediaRecorder | null = null;
+  private frame: number | undefined;
+  private audioTap: MediaStreamAudioDestinationNode | null = null;
+  private chunks: Blob[] = [];
+
+  get isRecording() {
+    return this.recorder !== null;
+  }
+
+  static get isSupported() {
+    return typeof MediaRecorder !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+  }
+
+  start(sources: CaptureSources, options: CaptureOptions) {
+    if (this.recorder) return;
+    if (!SceneRecorder.isSupported) throw new CaptureUnsupportedError("Video recording is not supported in this browser.");
+
+    const { canvas, ctx } = createCompositor(sources);
+    const stream = canvas.captureStream(RECORDING_FPS);
+    let recorder: MediaRecorder;
+    try {
+      // Tap the music after the analyser so what's heard is what's recorded
+      const { audioContext, output } = audioAnalyser;
+      if (options.includeAudio && audioContext && output) {
+        this.audioTap = audioContext.createMediaStreamDestination();
+        output.connect(this.audioTap);
+        this.audioTap.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+      }
+
+      const mimeType = VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) this.chunks.push(e.data);
+      };
+      this.chunks = [];
+      recorder.start(1000);
+    } catch (err) {
+      // Nothing is recording, so don't leave the audio tapped or the canvas stream open
+      this.release(stream);
+      throw err;
+    }
+
+    this.recorder = recorder;
+    const draw = () => {
+      composeFrame(ctx, sources, options);
+      this.frame = requestAnimationFrame(draw);
+    };
+    draw();
+  }
+
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.reject(new Error("Not recording"));
+    this.recorder = null;
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        this.release(recorder.stream);
+        resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+        this.chunks = [];
+      };
+      recorder.stop();
+    });
+  }
+
+  // Stops the draw loop, the stream's tracks and the audio tap
+  private release(stream: MediaStream) {
+    if (this.frame !== undefined) cancelAnimationFrame(this.frame);
+    this.frame = undefined;
+    stream.getTracks().forEach(track => track.stop());
+    if (this.audioTap) {
+      audioAnalyser.output?.disconnect(this.audioTap);
+      this.audioTap = null;
+    }
+  }
+}
+
+export const sceneRecorder = new SceneRecorder();
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download before the browser has started reading the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const captureFilename = (extension: string) =>
+  `winter-magic-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENE_CONFIG, keepUnchanged } from './sceneConfig';
+
+describe('keepUnchanged', () => {
+  it('keeps the slices an edit did not touch', () => {
+    const edited = structuredClone(DEFAULT_SCENE_CONFIG);
+    edited.lights.ambient.intensity = 0.8;
+
+    const next = keepUnchanged(DEFAULT_SCENE_CONFIG, edited);
+
+    expect(next).toEqual(edited);
+    expect(next.particles.colors).toBe(DEFAULT_SCENE_CONFIG.particles.colors);
+    expect(next.particles.weights).toBe(DEFAULT_SCENE_CONFIG.particles.weights);
+    expect(next.lights.point).toBe(DEFAULT_SCENE_CONFIG.lights.point);
+    expect(next.lights.ambient).not.toBe(DEFAULT_SCENE_CONFIG.lights.ambient);
+  });
+
+  it('returns the previous config when nothing changed', () => {
+    expect(keepUnchanged(DEFAULT_SCENE_CONFIG, structuredClone(DEFAULT_SCENE_CONFIG))).toBe(DEFAULT_SCENE_CONFIG);
+  });
+
+  it('notices a color list growing', () => {
+    const edited = structuredClone(DEFAULT_SCENE_CONFIG);
+    edited.particles.colors.sphere.push('#ffffff');
+
+    const next = keepUnchanged(DEFAULT_SCENE_CONFIG, edited);
+
+    expect(next.particles.colors.sphere).toEqual(edited.particles.colors.sphere);
+    expect(next.particles.colors.box).toBe(DEFAULT_SCENE_CONFIG.particles.colors.box);
+  });
+});
@@ -0,0 +1,349 @@
+import { ParticleType } from '../types';
+import { AudioBand } from './audioAnalyser';
+
+// Everything that defines how the scene looks, in one JSON-serializable object.
+// Themes are just SceneConfigs; imported files are validated against this shape.
+
+export const SCENE_CONFIG_VERSION = 1;
+
+type Vec3 = [number, number, number];
+type MeshParticleType = Exclude<ParticleType, 'emoji'>;
+
+export interface LightConfig {
+  color: string;
+  intensity: number;
+}
+
+// Which part of the music drives a visual, and how strongly (0 = not at all)
+export interface AudioMapping {
+  band: AudioBand;
+  amount: number;
+}
+
+export const AUDIO_BANDS: AudioBand[] = ['bass', 'mid', 'treble', 'beat'];
+
+export interface SceneConfig {
+  version: number;
+  name: string;
+  particles: {
+    count: number;
+    emojis: string[];
+    // Relative odds of each particle type
+    weights: Record<ParticleType, number>;
+    // Each mesh particle picks one of its type's colors at random
+    colors: Record<MeshParticleType, string[]>;
+  };
+  tree: {
+    height: number;
+    radius: number;
+  };
+  lights: {
+    ambient: LightConfig;
+    point: LightConfig & { position: Vec3 };
+    spot: LightConfig & { position: Vec3 };
+    treeTop: LightConfig; // The star on top of the tree
+  };
+  postProcessing: {
+    bloom: { enabled: boolean; intensity: number; luminanceThreshold: number; radius: number };
+    vignette: { enabled: boolean; offset: number; darkness: number };
+  };
+  camera: {
+    position: Vec3;
+    fov: number;
+  };
+  audio: {
+    star: AudioMapping; // Tree-top star pulse
+    sparkles: AudioMapping;
+    bloom: AudioMapping;
+    jitter: AudioMapping; // Particle shake, in scene units
+  };
+}
+
+// The original look of the app
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  version: SCENE_CONFIG_VERSION,
+  name: 'Classic',
+  particles: {
+    count: 5000,
+    emojis: ['🎁', '🎄', '🎅', '🔔', '👔', '🧦', '❄️', '🦌'],
+    weights: { emoji: 0.4, box: 0.2, cone: 0.2, sphere: 0.2 },
+    colors: {
+      sphere: ['#ffd700', '#ffffff'], // Gold or White bulbs
+      box: ['#ff3333'],
+      cone: ['#228822'], // Small trees
+    },
+  },
+  tree: {
+    height: 12,
+    radius: 6,
+  },
+  lights: {
+    ambient: { color: '#ffffff', intensity: 0.5 },
+    point: { color: '#ffffff', intensity: 1, position: [10, 10, 10] },
+    spot: { color: '#ffffff', intensity: 2, position: [0, 20, 0] },
+    treeTop: { color: '#ffff00', intensity: 2 },
+  },
+  postProcessing: {
+    bloom: { enabled: true, intensity: 1.5, luminanceThreshold: 1, radius: 0.4 },
+    vignette: { enabled: true, offset: 0.1, darkness: 1.1 },
+  },
+  camera: {
+    // Camera Z of 24 fits the whole tree (height ~12-15 units)
+    position: [0, 0, 24],
+    fov: 45,
+  },
+  audio: {
+    star: { band: 'beat', amount: 0.6 },
+    sparkles: { band: 'treble', amount: 2 },
+    bloom: { band: 'bass', amount: 1 },
+    jitter: { band: 'mid', amount: 0.3 },
+  },
+};
+
+export class SceneConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid scene config:\n${problems.map(p => `• ${p}`).join('\n')}`);
+    this.name = 'SceneConfigError';
+    this.problems = problems;
+  }
+}
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Walks an untrusted object alongside the fallback config. Missing fields take the fallback
+// value so partial theme files work; present-but-wrong fields are reported.
+class Validator {
+  problems: string[] = [];
+
+  number(value: unknown, fallback: number, path: string, min = -Infinity, max = Infinity): number {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      this.problems.push(`${path} must be a number between ${min} and ${max}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, fallback: boolean, path: string): boolean {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'boolean') {
+      this.problems.push(`${path} must be true or false`);
+      return fallback;
+    }
+    return value;
+  }
+
+  string(value: unknown, fallback: string, path: string): string {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string') {
+      this.problems.push(`${path} must be a string`);
+      return fallback;
+    }
+    return value;
+  }
+
+  color(value: unknown, fallback: string, path: string): string {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+      this.problems.push(`${path} must be a hex color like #ff0000`);
+      return fallback;
+    }
+    return value;
+  }
+
+  colors(value: unknown, fallback: string[], path: string): string[] {
+    if (value === undefined) return fallback;
+    if (!Array.isArray(value) || value.length === 0) {
+      this.problems.push(`${path} must be a non-empty list of colors`);
+      return fallback;
+    }
+    return value.map((c, i) => this.color(c, fallback[0], `${path}[${i}]`));
+  }
+
+  vec3(value: unknown, fallback: Vec3, path: string): Vec3 {
+    if (value === undefined) return fallback;
+    if (!Array.isArray(value) || value.length !== 3) {
+      this.problems.push(`${path} must be [x, y, z]`);
+      return fallback;
+    }
+    return [0, 1, 2].map(i => this.number(value[i], fallback[i], `${path}[${i}]`)) as Vec3;
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> {
+    if (value === undefined) return {};
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.problems.push(`${path} must be an object`);
+      return {};
+    }
+    return value as Record<string, unknown>;
+  }
+
+  audio(value: unknown, fallback: AudioMapping, path: string): AudioMapping {
+    const o = this.object(value, path);
+    let band = fallback.band;
+    if (o.band !== undefined) {
+      if (AUDIO_BANDS.includes(o.band as AudioBand)) band = o.band as AudioBand;
+      else this.problems.push(`${path}.band must be one of ${AUDIO_BANDS.join(', ')}`);
+    }
+    return { band, amount: this.number(o.amount, fallback.amount, `${path}.amount`, 0, 5) };
+  }
+
+  light(value: unknown, fallback: LightConfig, path: string): LightConfig {
+    const o = this.object(value, path);
+    return {
+      color: this.color(o.color, fallback.color, `${path}.color`),
+      intensity: this.number(o.intensity, fallback.intensity, `${path}.intensity`, 0, 100),
+    };
+  }
+}
+
+export const validateSceneConfig = (input: unknown, fallback: SceneConfig = DEFAULT_SCENE_CONFIG): SceneConfig => {
+  const v = new Validator();
+  const root = v.object(input, 'config');
+
+  if (root.version !== undefined && root.version !== SCENE_CONFIG_VERSION) {
+    v.problems.push(`version ${String(root.version)} is not supported (expected ${SCENE_CONFIG_VERSION})`);
+  }
+
+  const particles = v.object(root.particles, 'particles');
+  const weights = v.object(particles.weights, 'particles.weights');
+  const colors = v.object(particles.colors, 'particles.colors');
+  const tree = v.object(root.tree, 'tree');
+  const lights = v.object(root.lights, 'lights');
+  const point = v.object(lights.point, 'lights.point');
+  const spot = v.object(lights.spot, 'lights.spot');
+  const post = v.object(root.postProcessing, 'postProcessing');
+  const bloom = v.object(post.bloom, 'postProcessing.bloom');
+  const vignette = v.object(post.vignette, 'postProcessing.vignette');
+  const camera = v.object(root.camera, 'camera');
+  const audio = v.object(root.audio, 'audio');
+
+  let emojis = fallback.particles.emojis;
+  if (particles.emojis !== undefined) {
+    if (Array.isArray(particles.emojis) && particles.emojis.length > 0 && particles.emojis.every(e => typeof e === 'string' && e.length > 0)) {
+      emojis = particles.emojis as string[];
+    } else {
+      v.problems.push('particles.emojis must be a non-empty list of strings');
+    }
+  }
+
+  const fw = fallback.particles.weights;
+  const config: SceneConfig = {
+    version: SCENE_CONFIG_VERSION,
+    name: v.string(root.name, fallback.name, 'name'),
+    particles: {
+      count: Math.round(v.number(particles.count, fallback.particles.count, 'particles.count', 1, 50000)),
+      emojis,
+      weights: {
+        sphere: v.number(weights.sphere, fw.sphere, 'particles.weights.sphere', 0),
+        box: v.number(weights.box, fw.box, 'particles.weights.box', 0),
+        cone: v.number(weights.cone, fw.cone, 'particles.weights.cone', 0),
+        emoji: v.number(weights.emoji, fw.emoji, 'particles.weights.emoji', 0),
+      },
+      colors: {
+        sphere: v.colors(colors.sphere, fallback.particles.colors.sphere, 'particles.colors.sphere'),
+        box: v.colors(colors.box, fallback.particles.colors.box, 'particles.colors.box'),
+        cone: v.colors(colors.cone, fallback.particles.colors.cone, 'particles.colors.cone'),
+      },
+    },
+    tree: {
+      height: v.number(tree.height, fallback.tree.height, 'tree.height', 1, 50),
+      radius: v.number(tree.radius, fallback.tree.radius, 'tree.radius', 0.5, 30),
+    },
+    lights: {
+      ambient: v.light(lights.ambient, fallback.lights.ambient, 'lights.ambient'),
+      point: {
+        ...v.light(point, fallback.lights.point, 'lights.point'),
+        position: v.vec3(point.position, fallback.lights.point.position, 'lights.point.position'),
+      },
+      spot: {
+        ...v.light(spot, fallback.lights.spot, 'lights.spot'),
+        position: v.vec3(spot.position, fallback.lights.spot.position, 'lights.spot.position'),
+      },
+      treeTop: v.light(lights.treeTop, fallback.lights.treeTop, 'lights.treeTop'),
+    },
+    postProcessing: {
+      bloom: {
+        enabled: v.boolean(bloom.enabled, fallback.postProcessing.bloom.enabled, 'postProcessing.bloom.enabled'),
+        intensity: v.number(bloom.intensity, fallback.postProcessing.bloom.intensity, 'postProcessing.bloom.intensity', 0, 20),
+        luminanceThreshold: v.number(bloom.luminanceThreshold, fallback.postProcessing.bloom.luminanceThreshold, 'postProcessing.bloom.luminanceThreshold', 0, 10),
+        radius: v.number(bloom.radius, fallback.postProcessing.bloom.radius, 'postProcessing.bloom.radius', 0, 1),
+      },
+      vignette: {
+        enabled: v.boolean(vignette.enabled, fallback.postProcessing.vignette.enabled, 'postProcessing.vignette.enabled'),
+        offset: v.number(vignette.offset, fallback.postProcessing.vignette.offset, 'postProcessing.vignette.offset', 0, 1),
+        darkness: v.number(vignette.darkness, fallback.postProcessing.vignette.darkness, 'postProcessing.vignette.darkness', 0, 5),
+      },
+    },
+    camera: {
+      position: v.vec3(camera.position, fallback.camera.position, 'camera.position'),
+      fov: v.number(camera.fov, fallback.camera.fov, 'camera.fov', 10, 120),
+    },
+    audio: {
+      star: v.audio(audio.star, fallback.audio.star, 'audio.star'),
+      sparkles: v.audio(audio.sparkles, fallback.audio.sparkles, 'audio.sparkles'),
+      bloom: v.audio(audio.bloom, fallback.audio.bloom, 'audio.bloom'),
+      jitter: v.audio(audio.jitter, fallback.audio.jitter, 'audio.jitter'),
+    },
+  };
+
+  const w = config.particles.weights;
+  if (w.sphere + w.box + w.cone + w.emoji <= 0) {
+    v.problems.push('particles.weights must not all be zero');
+  }
+
+  if (v.problems.length > 0) throw new SceneConfigError(v.problems);
+  return config;
+};
+
+export const parseSceneConfig = (json: string): SceneConfig => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SceneConfigError(['file is not valid JSON']);
+  }
+  return validateSceneConfig(data);
+};
+
+export const exportSceneConfig = (config: SceneConfig) => {
+  const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${config.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'theme'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Returns next, but with every part that equals the one in prev replaced by prev's. Edits clone the
+// whole config, and this keeps untouched slices (e.g. the particle colors while a light changes)
+// the same objects, so memos keyed on them hold.
+export const keepUnchanged = <T,>(prev: T, next: T): T => {
+  if (Object.is(prev, next) || typeof prev !== 'object' || typeof next !== 'object' || !prev || !next) return next;
+  if (Array.isArray(prev) !== Array.isArray(next)) return next;
+
+  const before = prev as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  const merged = (Array.isArray(next) ? [] : {}) as Record<string, unknown>;
+  let same = Object.keys(before).length === Object.keys(after).length;
+  Object.keys(after).forEach(key => {
+    merged[key] = keepUnchanged(before[key], after[key]);
+    if (merged[key] !== before[key]) same = false;
+  });
+  return same ? prev : merged as T;
+};
+
+// Picks a particle type according to the configured weights
+export const rollParticleType = (weights: SceneConfig['particles']['weights']): ParticleType => {
+  const entries = Object.entries(weights) as [ParticleType, number][];
+  const total = entries.reduce((sum, [, w]) => sum + w, 0);
+  let roll = Math.random() * total;
+  for (const [type, weight] of entries) {
+    if (roll < weight) return type;
+    roll -= weight;
+  }
+  return 'sphere';
+};
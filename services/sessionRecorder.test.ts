@@ -0,0 +1,87 @@
+import { readdirSync, readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GestureEvent } from '../types';
+import { parseSession, replaySession, ReplayedFrame } from './sessionRecorder';
+
+const SESSIONS_DIR = new URL('../fixtures/sessions/', import.meta.url);
+
+const loadSession = (name: string) => parseSession(readFileSync(new URL(name, SESSIONS_DIR), 'utf8'));
+
+// Starts and ends in order, without the per-frame holds
+const transitions = (frames: ReplayedFrame[]) =>
+  frames.flatMap(frame => frame.events)
+    .filter(event => event.phase !== 'hold')
+    .map(event => `${event.gesture} ${event.phase}`);
+
+const eventAt = (frames: ReplayedFrame[], gesture: GestureEvent['gesture'], phase: GestureEvent['phase']) =>
+  frames.flatMap(frame => frame.events).find(event => event.gesture === gesture && event.phase === phase);
+
+describe('replaySession', () => {
+  // Open hand for a second, then a fist, then a pinch, then the hand leaves the frame
+  it('recognizes open, fist and pinch in open-fist-pinch.json', () => {
+    const frames = replaySession(loadSession('open-fist-pinch.json'));
+
+    expect(transitions(frames)).toEqual([
+      'open start',
+      'open end',
+      'fist start',
+      'pinch start',
+      'fist end',
+      'open start',
+      'open end',
+      'pinch end',
+    ]);
+    // Each change is only accepted after being held for a moment, not on the first frame
+    expect(eventAt(frames, 'fist', 'start')!.timestamp).toBeGreaterThan(1000);
+    expect(eventAt(frames, 'fist', 'start')!.timestamp).toBeLessThan(1400);
+    expect(eventAt(frames, 'pinch', 'start')!.timestamp).toBeGreaterThan(2000);
+    expect(eventAt(frames, 'pinch', 'start')!.timestamp).toBeLessThan(2400);
+    // The lost hand is kept alive for a short grace period before everything ends
+    expect(eventAt(frames, 'pinch', 'end')!.timestamp).toBeGreaterThan(3300);
+  });
+
+  it('reports the hand by its real handedness', () => {
+    const frames = replaySession(loadSession('open-fist-pinch.json'));
+    const seen = frames.find(frame => frame.hands.primary !== null)!;
+
+    expect(seen.hands.primary).toBe('Right');
+    expect(seen.hands.right).not.toBeNull();
+    expect(seen.hands.left).toBeNull();
+  });
+
+  it.each(readdirSync(SESSIONS_DIR).filter(name => name.endsWith('.json')))('replays %s the same way every time', name => {
+    const session = loadSession(name);
+    expect(replaySession(session)).toEqual(replaySession(session));
+  });
+
+  it.each(readdirSync(SESSIONS_DIR).filter(name => name.endsWith('.json')))('ends every gesture started in %s', name => {
+    const open = new Map<string, number>();
+    replaySession(loadSession(name)).flatMap(frame => frame.events).forEach(event => {
+      if (event.phase === 'start') open.set(event.gesture, (open.get(event.gesture) ?? 0) + 1);
+      if (event.phase === 'end') open.set(event.gesture, (open.get(event.gesture) ?? 0) - 1);
+    });
+
+    expect([...open.values()].every(count => count === 0)).toBe(true);
+  });
+});
+
+describe('parseSession', () => {
+  it('rejects files that are not sessions', () => {
+    expect(() => parseSession('{"hello": "world"}')).toThrow('Not a recorded hand session');
+  });
+
+  it('rejects other format versions', () => {
+    expect(() => parseSession('{"version": 99, "frames": []}')).toThrow('Unsupported session version 99');
+  });
+
+  it('rejects frames without a timestamp or with a malformed result', () => {
+    const withFrame = (frame: unknown) => JSON.stringify({ version: 1, createdAt: '', frames: [{ t: 0, result: null, hand: null }, frame] });
+
+    expect(() => parseSession(withFrame({ result: null, hand: null }))).toThrow('Frame 1 of the session is malformed');
+    expect(() => parseSession(withFrame({ t: 'soon', result: null, hand: null }))).toThrow('Frame 1 of the session is malformed');
+    expect(() => parseSession(withFrame({ t: 16, result: { landmarks: [[{ x: 0.5 }]], handedness: [[]] }, hand: null })))
+      .toThrow('Frame 1 of the session is malformed');
+    expect(() => parseSession(withFrame({ t: 16, result: { landmarks: [[]], handedness: [] }, hand: null })))
+      .toThrow('Frame 1 of the session is malformed');
+  });
+});
@@ -0,0 +1,127 @@
+import { GestureEvent, HandData, MultiHandData } from '../types';
+import { HandsRecognizer, LandmarkFrame } from './handsRecognizer';
+
+export const SESSION_FORMAT_VERSION = 1;
+
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  result: LandmarkFrame | null; // Raw landmarker output (null = no hand found)
+  hand: HandData | null; // Primary hand as derived live, kept for comparing against replays
+}
+
+export interface RecordedSession {
+  version: number;
+  createdAt: string;
+  frames: RecordedFrame[];
+}
+
+export interface ReplayedFrame {
+  t: number;
+  hands: MultiHandData;
+  events: GestureEvent[];
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Keep only what the recognizer needs, rounded to keep files small and diffable
+const compactResult = (result: LandmarkFrame): LandmarkFrame => ({
+  landmarks: result.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) }))),
+  handedness: result.handedness.map(categories => categories.map(({ categoryName, score }) => ({ categoryName, score: round(score) }))),
+});
+
+// Captures the landmarker stream while recording is on. HandTracker feeds every detection into it.
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private startTime: number | null = null;
+
+  get isRecording(): boolean {
+    return this.startTime !== null;
+  }
+
+  start() {
+    this.frames = [];
+    this.startTime = performance.now();
+  }
+
+  record(timestamp: number, result: LandmarkFrame | null, hand: HandData | null) {
+    if (this.startTime === null) return;
+    this.frames.push({
+      t: round(timestamp - this.startTime),
+      result: result && result.landmarks.length > 0 ? compactResult(result) : null,
+      hand,
+    });
+  }
+
+  stop(): RecordedSession {
+    this.startTime = null;
+    const session = { version: SESSION_FORMAT_VERSION, createdAt: new Date().toISOString(), frames: this.frames };
+    this.frames = [];
+    return session;
+  }
+}
+
+export const sessionRecorder = new SessionRecorder();
+
+export const downloadSession = (session: RecordedSession, filename = `hand-session-${Date.now()}.json`) => {
+  const blob = new Blob([JSON.stringify(session)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isLandmark = (value: unknown) => isRecord(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+
+const isCategory = (value: unknown) => isRecord(value) && typeof value.categoryName === 'string' && isNumber(value.score);
+
+const isListOf = (value: unknown, isItem: (item: unknown) => boolean): value is unknown[] =>
+  Array.isArray(value) && value.every(isItem);
+
+// The replay feeds results straight into the recognizer, so a file that only looks like a session must
+// fail here rather than deep inside the gesture pipeline
+const isLandmarkFrame = (value: unknown) =>
+  isRecord(value) &&
+  isListOf(value.landmarks, hand => isListOf(hand, isLandmark)) &&
+  isListOf(value.handedness, categories => isListOf(categories, isCategory)) &&
+  value.landmarks.length === value.handedness.length;
+
+const isRecordedFrame = (value: unknown) =>
+  isRecord(value) && isNumber(value.t) && (value.result === null || isLandmarkFrame(value.result));
+
+export const parseSession = (json: string): RecordedSession => {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== 'object' || !Array.isArray(data.frames)) {
+    throw new Error('Not a recorded hand session');
+  }
+  if (data.version !== SESSION_FORMAT_VERSION) {
+    throw new Error(`Unsupported session version ${data.version} (expected ${SESSION_FORMAT_VERSION})`);
+  }
+  const invalid = data.frames.findIndex((frame: unknown) => !isRecordedFrame(frame));
+  if (invalid >= 0) {
+    throw new Error(`Frame ${invalid} of the session is malformed`);
+  }
+  return data as RecordedSession;
+};
+
+// Runs a recorded session through the gesture pipeline without a camera, model or clock.
+// Same input always gives the same output, so sessions can serve as regression fixtures.
+export const replaySession = (session: RecordedSession, recognizer = new HandsRecognizer()): ReplayedFrame[] => {
+  const replayed = session.frames.map(frame => {
+    const { hands, events } = recognizer.update(frame.result, frame.t);
+    return { t: frame.t, hands, events };
+  });
+
+  const last = session.frames[session.frames.length - 1];
+  const endTime = last ? last.t : 0;
+  const trailing = recognizer.release(endTime);
+  if (trailing.length > 0 && replayed.length > 0) {
+    replayed[replayed.length - 1].events.push(...trailing);
+  }
+  return replayed;
+};
@@ -0,0 +1,22 @@
+// Snowfall intensity presets. How many flakes a preset actually gets depends on the quality tier
+// (QualityTier.snowflakes), so heavy snow on a slow machine is still within its budget.
+
+export interface SnowPreset {
+  id: string;
+  label: string;
+  density: number; // Share of the quality tier's flake budget (0-1)
+  fallSpeed: number; // Scene units per second
+  flakeSize: number; // Scene units
+  breeze: [number, number]; // Steady wind along x/z, in scene units per second
+}
+
+export const SNOW_PRESETS: SnowPreset[] = [
+  { id: 'flurries', label: 'Flurries', density: 0.25, fallSpeed: 0.7, flakeSize: 0.09, breeze: [0, 0] },
+  { id: 'snowfall', label: 'Snowfall', density: 0.6, fallSpeed: 1, flakeSize: 0.1, breeze: [0.2, 0] },
+  { id: 'blizzard', label: 'Blizzard', density: 1, fallSpeed: 2.2, flakeSize: 0.12, breeze: [2.5, 0.5] },
+];
+
+export const DEFAULT_SNOW_PRESET = 'snowfall';
+
+export const getSnowPreset = (id: string): SnowPreset =>
+  SNOW_PRESETS.find(p => p.id === id) ?? SNOW_PRESETS.find(p => p.id === DEFAULT_SNOW_PRESET)!;
@@ -0,0 +1,73 @@
+// Flick detection from a tracked point. Works on screen-space coordinates (0-1, y down,
+// already mirrored so "left" is the viewer's left) and timestamps in ms.
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface SwipeOptions {
+  windowMs: number; // How far back the motion is measured
+  minSpeed: number; // Screen sizes per second
+  minDistance: number; // Screen sizes travelled within the window
+  axisRatio: number; // Main axis must dominate the other by this much
+  cooldownMs: number; // Ignore further swipes for this long (the hand coming back)
+}
+
+export const DEFAULT_SWIPE_OPTIONS: SwipeOptions = {
+  windowMs: 200,
+  minSpeed: 1.2,
+  minDistance: 0.12,
+  axisRatio: 1.5,
+  cooldownMs: 500,
+};
+
+interface Sample {
+  x: number;
+  y: number;
+  t: number;
+}
+
+export class SwipeDetector {
+  private options: SwipeOptions;
+  private samples: Sample[] = [];
+  private lastSwipe = -Infinity;
+
+  constructor(options: SwipeOptions = DEFAULT_SWIPE_OPTIONS) {
+    this.options = options;
+  }
+
+  // Feed one position per frame (null when the hand is gone). Returns a direction on the frame a swipe completes.
+  update(point: { x: number; y: number } | null, timestamp: number): SwipeDirection | null {
+    if (!point) {
+      this.samples = [];
+      return null;
+    }
+    const last = this.samples[this.samples.length - 1];
+    if (last && timestamp <= last.t) return null; // Same frame published twice
+
+    this.samples.push({ x: point.x, y: point.y, t: timestamp });
+    const { windowMs, minSpeed, minDistance, axisRatio, cooldownMs } = this.options;
+    while (this.samples.length > 2 && timestamp - this.samples[0].t > windowMs) this.samples.shift();
+
+    if (timestamp - this.lastSwipe < cooldownMs || this.samples.length < 3) return null;
+
+    const first = this.samples[0];
+    const dt = (timestamp - first.t) / 1000;
+    if (dt <= 0) return null;
+    const dx = point.x - first.x;
+    const dy = point.y - first.y;
+    const horizontal = Math.abs(dx) >= Math.abs(dy);
+    const distance = horizontal ? Math.abs(dx) : Math.abs(dy);
+    const cross = horizontal ? Math.abs(dy) : Math.abs(dx);
+
+    if (distance < minDistance || distance / dt < minSpeed || distance < cross * axisRatio) return null;
+
+    this.lastSwipe = timestamp;
+    this.samples = [];
+    if (horizontal) return dx > 0 ? 'right' : 'left';
+    return dy > 0 ? 'down' : 'up';
+  }
+
+  reset() {
+    this.samples = [];
+    this.lastSwipe = -Infinity;
+  }
+}
@@ -0,0 +1,69 @@
+import { DEFAULT_SCENE_CONFIG, SceneConfig, validateSceneConfig } from './sceneConfig';
+
+type ThemeOverrides = {
+  name: string;
+  particles?: Partial<SceneConfig['particles']>;
+  tree?: Partial<SceneConfig['tree']>;
+  lights?: Partial<SceneConfig['lights']>;
+  postProcessing?: Partial<SceneConfig['postProcessing']>;
+};
+
+// Themes only spell out what differs from the classic look
+const theme = (overrides: ThemeOverrides): SceneConfig => validateSceneConfig(overrides);
+
+export const BUNDLED_THEMES: Record<string, SceneConfig> = {
+  classic: DEFAULT_SCENE_CONFIG,
+  'winter-blue': theme({
+    name: 'Winter Blue',
+    particles: {
+      emojis: ['❄️', '⛄', '🌨️', '🧊', '⛸️', '🎿'],
+      colors: {
+        sphere: ['#dff3ff', '#9fd4ff'],
+        box: ['#4a90e2'],
+        cone: ['#b8e0ff'],
+      },
+    },
+    lights: {
+      ...DEFAULT_SCENE_CONFIG.lights,
+      ambient: { color: '#bcdcff', intensity: 0.6 },
+      treeTop: { color: '#9fe8ff', intensity: 2.5 },
+    },
+  }),
+  gold: theme({
+    name: 'Gold',
+    particles: {
+      emojis: ['⭐', '✨', '🔔', '👑', '🎁', '🏆'],
+      weights: { emoji: 0.25, box: 0.2, cone: 0.15, sphere: 0.4 },
+      colors: {
+        sphere: ['#ffd700', '#f7e7b4', '#e6be8a'],
+        box: ['#d4af37'],
+        cone: ['#b8860b'],
+      },
+    },
+    lights: {
+      ...DEFAULT_SCENE_CONFIG.lights,
+      ambient: { color: '#fff1cc', intensity: 0.5 },
+      treeTop: { color: '#ffd700', intensity: 3 },
+    },
+    postProcessing: {
+      ...DEFAULT_SCENE_CONFIG.postProcessing,
+      bloom: { enabled: true, intensity: 2, luminanceThreshold: 0.9, radius: 0.5 },
+    },
+  }),
+  'lunar-new-year': theme({
+    name: 'Lunar New Year',
+    particles: {
+      emojis: ['🧧', '🏮', '🐉', '🧨', '🍊', '🎆'],
+      colors: {
+        sphere: ['#ffcc00', '#ff4040'],
+        box: ['#d10000'],
+        cone: ['#ffb300'],
+      },
+    },
+    lights: {
+      ...DEFAULT_SCENE_CONFIG.lights,
+      ambient: { color: '#ffd6cc', intensity: 0.5 },
+      treeTop: { color: '#ff3b3b', intensity: 2.5 },
+    },
+  }),
+};
@@ -0,0 +1,212 @@
+// Photo transitions: how a card arrives in front of the viewer, how it moves while it is shown,
+// and how it goes back into the tree. Built-ins are registered below; third parties can add
+// their own with registerTransition().
+
+// Where a card is drawn relative to its resting pose. Every field is optional in a timeline.
+export interface TransitionPose {
+  offset: [number, number, number]; // Scene units along the screen: right, up, towards the camera
+  rotation: [number, number, number]; // Radians around the card's own x/y/z, on top of facing the camera
+  scale: number; // Multiplier
+  opacity: number;
+  dissolve: number; // 0 = intact, 1 = melted away into snow
+}
+
+export interface TransitionContext {
+  side: number; // Where the card comes from or goes to: 1 = right, -1 = left
+}
+
+export type Easing = (t: number) => number;
+
+export interface TransitionTimeline {
+  duration: number; // Seconds
+  easing: Easing; // Shapes the trip between the tree and the front
+  // Pose at `progress` (linear 0-1) through the timeline; should end (enter) or start (exit) at rest
+  pose: (progress: number, context: TransitionContext) => Partial<TransitionPose>;
+}
+
+export interface Transition {
+  id: string;
+  label: string;
+  enter: TransitionTimeline;
+  idle: (time: number) => Partial<TransitionPose>; // While shown; `time` is the clock in seconds
+  exit: TransitionTimeline;
+}
+
+export const REST_POSE: TransitionPose = { offset: [0, 0, 0], rotation: [0, 0, 0], scale: 1, opacity: 1, dissolve: 0 };
+
+export const easings = {
+  linear: (t: number) => t,
+  inCubic: (t: number) => t * t * t,
+  outCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  inOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  inBack: (t: number) => 2.70158 * t * t * t - 1.70158 * t * t,
+  outBack: (t: number) => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2),
+} satisfies Record<string, Easing>;
+
+const registry = new Map<string, Transition>();
+const listeners = new Set<() => void>();
+let snapshot: Transition[] = [];
+
+const notify = () => {
+  snapshot = Array.from(registry.values());
+  listeners.forEach(listener => listener());
+};
+
+// Adds (or replaces) a transition. Returns a function that unregisters it again.
+export const registerTransition = (transition: Transition): (() => void) => {
+  registry.set(transition.id, transition);
+  notify();
+  return () => {
+    if (registry.get(transition.id) === transition) {
+      registry.delete(transition.id);
+      notify();
+    }
+  };
+};
+
+export const getTransition = (id: string): Transition | undefined => registry.get(id);
+
+export const listTransitions = (): Transition[] => snapshot;
+
+// For useSyncExternalStore
+export const subscribeTransitions = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const DEFAULT_TRANSITION = 'fade';
+
+// Photos can name a transition that isn't registered here (e.g. a custom one from another machine)
+export const resolveTransition = (id: string): Transition =>
+  registry.get(id) ?? registry.get(DEFAULT_TRANSITION) ?? fade;
+
+const SLIDE_DISTANCE = 12;
+
+const spin: Transition = {
+  id: 'spin',
+  label: 'Spin',
+  enter: {
+    duration: 0.7,
+    easing: easings.outCubic,
+    pose: (p, { side }) => ({ rotation: [0, (1 - easings.outCubic(p)) * Math.PI * 2 * side, 0], scale: easings.outCubic(p) }),
+  },
+  idle: (time) => ({ rotation: [0, 0, Math.sin(time * 2) * 0.2] }),
+  exit: {
+    duration: 0.5,
+    easing: easings.inOutCubic,
+    pose: (p, { side }) => ({ rotation: [0, easings.inCubic(p) * Math.PI * 2 * side, 0], scale: 1 - easings.inCubic(p) }),
+  },
+};
+
+const slide: Transition = {
+  id: 'slide',
+  label: 'Slide',
+  enter: {
+    duration: 0.6,
+    easing: easings.outCubic,
+    pose: (p, { side }) => ({ offset: [(1 - easings.outCubic(p)) * SLIDE_DISTANCE * side, 0, 0] }),
+  },
+  idle: (time) => ({ offset: [Math.sin(time * 3) * 0.5, 0, 0] }),
+  exit: {
+    duration: 0.5,
+    easing: easings.inOutCubic,
+    pose: (p, { side }) => ({ offset: [easings.inCubic(p) * SLIDE_DISTANCE * side, 0, 0] }),
+  },
+};
+
+const pop: Transition = {
+  id: 'pop',
+  label: 'Pop',
+  enter: {
+    duration: 0.5,
+    easing: easings.outCubic,
+    pose: (p) => ({ scale: easings.outBack(p) }),
+  },
+  idle: (time) => ({ scale: 1 + Math.sin(time * 10) * 0.03 }),
+  exit: {
+    duration: 0.4,
+    easing: easings.inOutCubic,
+    pose: (p) => ({ scale: Math.max(0, 1 - easings.inBack(p)) }),
+  },
+};
+
+const fade: Transition = {
+  id: 'fade',
+  label: 'Fade',
+  enter: {
+    duration: 0.8,
+    easing: easings.inOutCubic,
+    pose: (p) => ({ opacity: p }),
+  },
+  idle: (time) => ({ offset: [0, Math.sin(time) * 0.2, 0] }),
+  exit: {
+    duration: 0.6,
+    easing: easings.inOutCubic,
+    pose: (p) => ({ opacity: 1 - p }),
+  },
+};
+
+// Turns over like a playing card, showing the wrapped back first
+const flip: Transition = {
+  id: 'flip',
+  label: 'Flip',
+  enter: {
+    duration: 0.8,
+    easing: easings.outCubic,
+    pose: (p, { side }) => ({ rotation: [0, (1 - easings.inOutCubic(p)) * Math.PI * side, 0] }),
+  },
+  idle: (time) => ({ rotation: [0, Math.sin(time * 1.5) * 0.12, 0] }),
+  exit: {
+    duration: 0.6,
+    easing: easings.inOutCubic,
+    pose: (p, { side }) => ({ rotation: [0, easings.inOutCubic(p) * Math.PI * side, 0] }),
+  },
+};
+
+// Arrives as a small wrapped present, shakes, then turns open with a bounce
+const unwrapGift: Transition = {
+  id: 'unwrap-gift',
+  label: 'Unwrap gift',
+  enter: {
+    duration: 1.2,
+    easing: easings.outCubic,
+    pose: (p) => {
+      const shake = p < 0.45 ? Math.sin(p * 70) * 0.18 * (p / 0.45) : 0;
+      const open = Math.max(0, (p - 0.45) / 0.55);
+      return {
+        rotation: [0, Math.PI * (1 - easings.inOutCubic(open)), shake],
+        scale: 0.55 + 0.45 * easings.outBack(open),
+      };
+    },
+  },
+  idle: (time) => ({ offset: [0, Math.sin(time * 1.2) * 0.15, 0], rotation: [0, 0, Math.sin(time * 0.8) * 0.05] }),
+  exit: {
+    duration: 0.7,
+    easing: easings.inOutCubic,
+    pose: (p) => ({
+      rotation: [0, Math.PI * easings.inOutCubic(Math.min(1, p / 0.6)), 0],
+      scale: 1 - 0.45 * easings.inCubic(p),
+    }),
+  },
+};
+
+// Gathers out of falling snow, and melts back into it
+const snowDissolve: Transition = {
+  id: 'snow-dissolve',
+  label: 'Snow dissolve',
+  enter: {
+    duration: 1,
+    easing: easings.inOutCubic,
+    pose: (p) => ({ dissolve: 1 - easings.outCubic(p), offset: [0, (1 - easings.outCubic(p)) * 1.5, 0] }),
+  },
+  idle: (time) => ({ offset: [0, Math.sin(time * 0.9) * 0.15, 0] }),
+  exit: {
+    duration: 0.9,
+    easing: easings.inCubic,
+    pose: (p) => ({ dissolve: easings.inOutCubic(p), offset: [0, -easings.inCubic(p) * 1.5, 0] }),
+  },
+};
+
+[spin, slide, pop, fade, flip, unwrapGift, snowDissolve].forEach(registerTransition);
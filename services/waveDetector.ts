@@ -0,0 +1,58 @@
+// Wave detection: the hand swinging side to side a few times. Works on the wrist's sideways travel
+// in palm lengths (so the swing is the same size near and far from the camera) and timestamps in ms.
+
+export interface WaveOptions {
+  amplitude: number; // Palm lengths the hand must travel before a change of direction counts
+  minReversals: number; // Changes of direction within windowMs that make a wave
+  windowMs: number;
+}
+
+export const DEFAULT_WAVE_OPTIONS: WaveOptions = {
+  amplitude: 0.5,
+  minReversals: 2,
+  windowMs: 1500,
+};
+
+export class WaveDetector {
+  private options: WaveOptions;
+  private extreme: number | null = null; // Furthest x reached in the current direction
+  private direction = 0; // 1 / -1 once the hand has moved far enough to tell
+  private reversals: number[] = [];
+
+  constructor(options: WaveOptions = DEFAULT_WAVE_OPTIONS) {
+    this.options = options;
+  }
+
+  // Feed one position per frame (null when the hand is gone or not open). Returns whether the hand is waving.
+  update(x: number | null, timestamp: number): boolean {
+    if (x === null) {
+      this.reset();
+      return false;
+    }
+    const { amplitude, minReversals, windowMs } = this.options;
+
+    if (this.extreme === null) {
+      this.extreme = x;
+    } else if (this.direction === 0) {
+      if (Math.abs(x - this.extreme) >= amplitude) {
+        this.direction = Math.sign(x - this.extreme);
+        this.extreme = x;
+      }
+    } else if ((x - this.extreme) * this.direction > 0) {
+      this.extreme = x;
+    } else if (Math.abs(x - this.extreme) >= amplitude) {
+      this.reversals.push(timestamp);
+      this.direction = -this.direction;
+      this.extreme = x;
+    }
+
+    while (this.reversals.length > 0 && timestamp - this.reversals[0] > windowMs) this.reversals.shift();
+    return this.reversals.length >= minReversals;
+  }
+
+  reset() {
+    this.extreme = null;
+    this.direction = 0;
+    this.reversals = [];
+  }
+}
@@ -1,19 +1,62 @@
 import * as THREE from 'three';
 
+export type Handedness = 'Left' | 'Right';
+
 export interface HandData {
+  handedness: Handedness;
+  confidence: number; // Handedness score from the landmarker (0-1)
   isOpen: boolean;
   isPinching: boolean;
   pinchDistance: number;
   wristPos: { x: number; y: number; z: number };
   indexTipPos: { x: number; y: number; z: number };
   thumbTipPos: { x: number; y: number; z: number };
+  handSize: number; // Wrist to middle knuckle (normalized image units); grows as the hand comes closer
+  openness: number; // Average fingertip-to-wrist distance in palm lengths (handSize)
+  pose: HandPose | null; // Finger pose currently held, if any; such a hand is neither open nor a fist
+  timestamp: number; // performance.now() of the video frame this was derived from
+}
+
+// Both hands pinching: relative change since the two-hand gesture started
+export interface TwoHandGesture {
+  scale: number; // Current hand separation / separation at start (>1 = spread apart)
+  rotation: number; // Radians the line between the hands has twisted since start
+  duration: number; // ms since the gesture started
+}
+
+export interface MultiHandData {
+  left: HandData | null;
+  right: HandData | null;
+  primary: Handedness | null; // Which hand drives the single-hand gestures
+  twoHand: TwoHandGesture | null;
 }
 
+// Held finger poses, on top of open/fist
+export type HandPose = 'thumbsUp' | 'point' | 'victory' | 'rockOn';
+
+export type GestureName = 'open' | 'fist' | 'pinch' | 'thumbsUp' | 'point' | 'victory' | 'rockOn' | 'wave';
+export type GesturePhase = 'start' | 'hold' | 'end';
+
+export interface GestureEvent {
+  gesture: GestureName;
+  phase: GesturePhase;
+  timestamp: number;
+  duration: number; // ms since the gesture started (0 on 'start')
+}
+
+// Id of a registered transition, see services/transitions
+export type TransitionType = string;
+
 export interface PhotoData {
   id: string;
   url: string;
-  texture?: THREE.Texture;
-  transitionType: 'spin' | 'slide' | 'pop' | 'fade';
+  texture?: THREE.Texture; // Set once the image has been decoded
+  aspect?: number; // Width / height of the upright image, known once decoded
+  status: 'loading' | 'ready' | 'error';
+  transitionType: TransitionType;
+  order: number; // Position in the photo list, persisted with the photo
+  caption: string;
+  date?: string; // YYYY-MM-DD, defaults to the EXIF capture date
 }
 
 export type ParticleType = 'sphere' | 'box' | 'cone' | 'emoji';
@@ -24,7 +67,6 @@ export interface ParticleConfig {
   emoji?: string; // If type is emoji
   color: string;
   initialPos: [number, number, number];
-  treePos: [number, number, number]; // Target position in tree form
   scale: number;
   rotationSpeed: [number, number, number];
 }
\ No newline at end of file
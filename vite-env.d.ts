@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MEDIAPIPE_WASM_PATH?: string;
+  readonly VITE_HAND_MODEL_PATH?: string;
+  readonly VITE_PHOTO_QUOTA_MB?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}